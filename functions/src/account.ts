@@ -0,0 +1,184 @@
+import { logger } from 'firebase-functions';
+import { getAuth } from 'firebase-admin/auth';
+import {
+  getFirestore,
+  FieldValue,
+  DocumentReference,
+  GeoPoint,
+  Timestamp,
+} from 'firebase-admin/firestore';
+import { deleteStorageImages } from './storage.js';
+import { roundRating } from './ratings.js';
+
+const USERS_COLLECTION = 'users';
+const LISTINGS_COLLECTION = 'listings';
+const CONVERSATIONS_COLLECTION = 'conversations';
+const REPORTS_COLLECTION = 'reports';
+const COMMENTS_SUBCOLLECTION = 'comments';
+const RATINGS_SUBCOLLECTION = 'ratings';
+const MESSAGES_SUBCOLLECTION = 'messages';
+const HISTORY_SUBCOLLECTION = 'history';
+const USER_SUBCOLLECTIONS = ['savedSearches', 'favorites', 'notifications'];
+
+// Firestore batches are capped at 500 writes
+const BATCH_SIZE = 400;
+
+// What other people still see in place of a deleted account
+const DELETED_USER_ID = 'deleted-user';
+const DELETED_USERNAME = 'Deleted user';
+
+// Timestamps and GeoPoints don't survive JSON.stringify in a readable form
+const toPlain = (value: unknown): unknown => {
+  if (value instanceof Timestamp) return value.toDate().toISOString();
+  if (value instanceof GeoPoint) return { lat: value.latitude, lng: value.longitude };
+  if (Array.isArray(value)) return value.map(toPlain);
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, field]) => [key, toPlain(field)]));
+  }
+  return value;
+};
+
+const withId = (doc: { id: string; data: () => unknown }) =>
+  toPlain({ id: doc.id, ...(doc.data() as object) });
+
+const updateInBatches = async (refs: DocumentReference[], data: Record<string, unknown>) => {
+  const db = getFirestore();
+  for (let i = 0; i < refs.length; i += BATCH_SIZE) {
+    const batch = db.batch();
+    refs.slice(i, i + BATCH_SIZE).forEach(ref => batch.update(ref, data));
+    await batch.commit();
+  }
+};
+
+// Everything stored about a user, as a JSON-ready archive. Runs with admin access, so it
+// also includes the user's comments, ratings and messages on other people's documents.
+export const exportUserData = async (uid: string) => {
+  const db = getFirestore();
+  const userRef = db.collection(USERS_COLLECTION).doc(uid);
+
+  const [profile, listings, comments, ratings, conversations, reports, ...subcollections] = await Promise.all([
+    userRef.get(),
+    db.collection(LISTINGS_COLLECTION).where('userId', '==', uid).get(),
+    db.collectionGroup(COMMENTS_SUBCOLLECTION).where('userId', '==', uid).get(),
+    db.collectionGroup(RATINGS_SUBCOLLECTION).where('userId', '==', uid).get(),
+    db.collection(CONVERSATIONS_COLLECTION).where('participants', 'array-contains', uid).get(),
+    db.collection(REPORTS_COLLECTION).where('reporterId', '==', uid).get(),
+    ...USER_SUBCOLLECTIONS.map(name => userRef.collection(name).get()),
+  ]);
+
+  const conversationsWithMessages = await Promise.all(conversations.docs.map(async conversation => ({
+    ...(withId(conversation) as object),
+    messages: (await conversation.ref.collection(MESSAGES_SUBCOLLECTION).orderBy('createdAt').get()).docs.map(withId),
+  })));
+
+  return {
+    exportedAt: new Date().toISOString(),
+    uid,
+    profile: profile.exists ? withId(profile) : null,
+    listings: listings.docs.map(withId),
+    comments: comments.docs.map(doc => ({ listingId: doc.ref.parent.parent?.id, ...(withId(doc) as object) })),
+    ratings: ratings.docs.map(withId),
+    conversations: conversationsWithMessages,
+    reports: reports.docs.map(withId),
+    ...Object.fromEntries(USER_SUBCOLLECTIONS.map((name, i) => [name, subcollections[i].docs.map(withId)])),
+  };
+};
+
+// Take a rating back out of its listing's aggregate. The onRatingWritten trigger then
+// recomputes the giver's profile rating.
+const removeRating = async (ratingRef: DocumentReference) => {
+  const db = getFirestore();
+  const listingRef = ratingRef.parent.parent!;
+
+  await db.runTransaction(async (transaction) => {
+    const [ratingSnap, listingSnap] = await Promise.all([transaction.get(ratingRef), transaction.get(listingRef)]);
+    const value = ratingSnap.get('rating');
+
+    if (listingSnap.exists && typeof value === 'number') {
+      const ratingCount = Math.max(0, (listingSnap.get('ratingCount') || 0) - 1);
+      const ratingSum = Math.max(0, (listingSnap.get('ratingSum') || 0) - value);
+      transaction.update(listingRef, {
+        ratingCount,
+        ratingSum,
+        rating: ratingCount > 0 ? roundRating(ratingSum / ratingCount) : 0,
+        updatedAt: FieldValue.serverTimestamp(),
+      });
+    }
+    transaction.delete(ratingRef);
+  });
+};
+
+// Delete a user's account and their data. Their own listings (with comments, ratings and
+// history), profile, saved searches, favorites, notifications and reports are deleted, along
+// with their uploaded images. Comments and messages left on other people's listings and
+// conversations stay so those threads still make sense, but no longer name the user.
+export const deleteUserData = async (uid: string): Promise<void> => {
+  const db = getFirestore();
+  const userRef = db.collection(USERS_COLLECTION).doc(uid);
+
+  const [profile, listings, comments, ratings, history, conversations, reports] = await Promise.all([
+    userRef.get(),
+    db.collection(LISTINGS_COLLECTION).where('userId', '==', uid).get(),
+    db.collectionGroup(COMMENTS_SUBCOLLECTION).where('userId', '==', uid).get(),
+    db.collectionGroup(RATINGS_SUBCOLLECTION).where('userId', '==', uid).get(),
+    db.collectionGroup(HISTORY_SUBCOLLECTION).where('actorId', '==', uid).get(),
+    db.collection(CONVERSATIONS_COLLECTION).where('participants', 'array-contains', uid).get(),
+    db.collection(REPORTS_COLLECTION).where('reporterId', '==', uid).get(),
+  ]);
+
+  const imageUrls: string[] = [
+    ...(profile.get('avatar') ? [profile.get('avatar') as string] : []),
+    ...listings.docs.flatMap(listing => (listing.get('images') as string[] | undefined) || []),
+  ];
+
+  // Ratings on listings about to be deleted go with them
+  const ownListingIds = new Set(listings.docs.map(listing => listing.id));
+  for (const rating of ratings.docs) {
+    if (!ownListingIds.has(rating.ref.parent.parent!.id)) {
+      await removeRating(rating.ref);
+    }
+  }
+
+  await updateInBatches(
+    comments.docs.filter(comment => !ownListingIds.has(comment.ref.parent.parent!.id)).map(comment => comment.ref),
+    { userId: DELETED_USER_ID, username: DELETED_USERNAME, userAvatar: FieldValue.delete() }
+  );
+
+  // Other people's listing histories keep the event but not who did it
+  await updateInBatches(
+    history.docs.filter(entry => !ownListingIds.has(entry.ref.parent.parent!.id)).map(entry => entry.ref),
+    { actorId: FieldValue.delete(), actorName: DELETED_USERNAME }
+  );
+
+  for (const conversation of conversations.docs) {
+    const messages = await conversation.ref
+      .collection(MESSAGES_SUBCOLLECTION)
+      .where('senderId', '==', uid)
+      .get();
+    await updateInBatches(messages.docs.map(message => message.ref), {
+      senderId: DELETED_USER_ID,
+      senderName: DELETED_USERNAME,
+    });
+    await conversation.ref.update({
+      [`participantNames.${uid}`]: DELETED_USERNAME,
+      ...(conversation.get('lastSenderId') === uid && { lastSenderId: DELETED_USER_ID }),
+    });
+  }
+
+  for (const listing of listings.docs) {
+    await db.recursiveDelete(listing.ref);
+  }
+  for (const report of reports.docs) {
+    await report.ref.delete();
+  }
+  await db.recursiveDelete(userRef);
+
+  await deleteStorageImages(imageUrls, `user ${uid}`);
+
+  await getAuth().deleteUser(uid);
+
+  logger.info(
+    `Deleted account ${uid}: ${listings.size} listings, ${comments.size} comments, ` +
+    `${ratings.size} ratings, ${imageUrls.length} images`
+  );
+};
@@ -0,0 +1,46 @@
+import { logger } from 'firebase-functions';
+import { getFirestore, FieldValue, Timestamp } from 'firebase-admin/firestore';
+
+const LISTINGS_COLLECTION = 'listings';
+const HISTORY_SUBCOLLECTION = 'history';
+
+// Firestore batches are capped at 500 writes, and each listing takes two (status + history)
+const BATCH_SIZE = 200;
+
+// Flip every active or reserved listing whose expiresAt has passed to 'expired'.
+// Mirrors updateListingStatus in src/services/firestore.ts.
+export const expireOverdueListings = async (now: Timestamp = Timestamp.now()): Promise<number> => {
+  const db = getFirestore();
+  let expiredCount = 0;
+
+  while (true) {
+    const snapshot = await db
+      .collection(LISTINGS_COLLECTION)
+      .where('status', 'in', ['active', 'reserved'])
+      .where('expiresAt', '<=', now)
+      .limit(BATCH_SIZE)
+      .get();
+
+    if (snapshot.empty) break;
+
+    const batch = db.batch();
+    snapshot.docs.forEach(doc => {
+      batch.update(doc.ref, {
+        status: 'expired',
+        updatedAt: FieldValue.serverTimestamp(),
+      });
+      batch.set(doc.ref.collection(HISTORY_SUBCOLLECTION).doc(), {
+        event: 'expired',
+        listingOwnerId: doc.get('userId') || '',
+        at: FieldValue.serverTimestamp(),
+      });
+    });
+    await batch.commit();
+
+    expiredCount += snapshot.size;
+    if (snapshot.size < BATCH_SIZE) break;
+  }
+
+  logger.info(`Expired ${expiredCount} overdue listings`);
+  return expiredCount;
+};
@@ -0,0 +1,54 @@
+import { logger } from 'firebase-functions';
+import { getFirestore, FieldValue, DocumentData } from 'firebase-admin/firestore';
+
+const FAVORITES_COLLECTION = 'favorites';
+
+// Firestore batches are capped at 500 writes
+const BATCH_SIZE = 400;
+
+const UNAVAILABLE_MESSAGES: Record<string, string> = {
+  taken: 'was taken',
+  expired: 'has expired',
+};
+
+// Keep favorites' listingStatus in sync, and tell everyone watching a listing when it
+// is taken or expires
+export const syncFavoritesForListing = async (listingId: string, listing: DocumentData): Promise<number> => {
+  const db = getFirestore();
+  const snapshot = await db
+    .collectionGroup(FAVORITES_COLLECTION)
+    .where('listingId', '==', listingId)
+    .get();
+
+  if (snapshot.empty) return 0;
+
+  const unavailableMessage = UNAVAILABLE_MESSAGES[listing.status];
+
+  for (let i = 0; i < snapshot.docs.length; i += BATCH_SIZE) {
+    const batch = db.batch();
+    snapshot.docs.slice(i, i + BATCH_SIZE).forEach(favoriteDoc => {
+      batch.update(favoriteDoc.ref, { listingStatus: listing.status });
+
+      if (!unavailableMessage) return;
+
+      // favorites/{listingId} sits under users/{uid}, so notifications go in the sibling collection.
+      // Keyed by listing + status so a retried trigger doesn't notify twice.
+      const notificationRef = favoriteDoc.ref.parent.parent!
+        .collection('notifications')
+        .doc(`${listingId}_${listing.status}`);
+
+      batch.set(notificationRef, {
+        type: 'favorite-unavailable',
+        title: `"${listing.title}" ${unavailableMessage}`,
+        body: 'A box on your watchlist is no longer available.',
+        listingId,
+        read: false,
+        createdAt: FieldValue.serverTimestamp(),
+      });
+    });
+    await batch.commit();
+  }
+
+  logger.info(`Synced ${snapshot.size} favorites for listing ${listingId} (${listing.status})`);
+  return snapshot.size;
+};
@@ -0,0 +1,130 @@
+import { initializeApp } from 'firebase-admin/app';
+import { onSchedule } from 'firebase-functions/v2/scheduler';
+import { onRequest, onCall, HttpsError } from 'firebase-functions/v2/https';
+import { onDocumentWritten, onDocumentUpdated, onDocumentCreated } from 'firebase-functions/v2/firestore';
+import { expireOverdueListings } from './expiry.js';
+import { recomputeUserRating } from './ratings.js';
+import { releaseLapsedReservations } from './reservations.js';
+import { creditConfirmedPickup } from './pickups.js';
+import { notifyMatchingSavedSearches } from './savedSearches.js';
+import { syncFavoritesForListing } from './favorites.js';
+import { applyReportsToListing } from './reports.js';
+import { exportUserData, deleteUserData } from './account.js';
+import { purgeDeletedListings, purgeOwnListing } from './trash.js';
+
+initializeApp();
+
+// Runs every 15 minutes in production
+export const expireListings = onSchedule('every 15 minutes', async () => {
+  await expireOverdueListings();
+});
+
+// The emulator does not fire schedules, so expose a manual trigger there:
+// curl http://127.0.0.1:5001/<project-id>/us-central1/expireListingsNow
+export const expireListingsNow = onRequest(async (_req, res) => {
+  if (process.env.FUNCTIONS_EMULATOR !== 'true') {
+    res.status(404).send('Not found');
+    return;
+  }
+
+  const expiredCount = await expireOverdueListings();
+  const releasedCount = await releaseLapsedReservations();
+  const purgedCount = await purgeDeletedListings();
+  res.json({ expiredCount, releasedCount, purgedCount });
+});
+
+// Holds last 30 minutes, so check more often than expiry
+export const releaseReservations = onSchedule('every 5 minutes', async () => {
+  await releaseLapsedReservations();
+});
+
+// Deleted listings can be restored from the trash for a week, so a daily sweep is plenty
+export const purgeTrash = onSchedule('every 24 hours', async () => {
+  await purgeDeletedListings();
+});
+
+// "Delete forever" in the Profile trash. Runs here because it deletes the listing's
+// comments and ratings too, which the owner can't do from the client.
+export const purgeMyListing = onCall(async (request) => {
+  if (!request.auth) {
+    throw new HttpsError('unauthenticated', 'Sign in to delete your listing');
+  }
+
+  const listingId = request.data?.listingId;
+  if (typeof listingId !== 'string' || !listingId) {
+    throw new HttpsError('invalid-argument', 'Missing listingId');
+  }
+
+  await purgeOwnListing(request.auth.uid, listingId);
+  return { purged: true };
+});
+
+// Keep the giver's profile rating in sync with ratings on their listings
+export const onRatingWritten = onDocumentWritten('listings/{listingId}/ratings/{raterId}', async (event) => {
+  const rating = event.data?.after.data() ?? event.data?.before.data();
+  if (!rating?.listingOwnerId) return;
+
+  await recomputeUserRating(rating.listingOwnerId);
+});
+
+// Pickup stats are only credited once the claim -> confirm handshake completes
+export const creditPickup = onDocumentUpdated('listings/{listingId}', async (event) => {
+  const before = event.data?.before.data();
+  const after = event.data?.after.data();
+  if (before?.status !== 'claimed' || after?.status !== 'taken') return;
+
+  await creditConfirmedPickup(event.params.listingId);
+});
+
+// Alert users whose saved searches match a newly posted box
+export const notifySavedSearches = onDocumentCreated('listings/{listingId}', async (event) => {
+  const listing = event.data?.data();
+  if (!listing) return;
+
+  await notifyMatchingSavedSearches(event.params.listingId, listing);
+});
+
+// Keep watchlists current and notify favoriters when a box is taken or expires
+export const onFavoritedListingUpdated = onDocumentUpdated('listings/{listingId}', async (event) => {
+  const before = event.data?.before.data();
+  const after = event.data?.after.data();
+  if (!after || before?.status === after.status) return;
+
+  await syncFavoritesForListing(event.params.listingId, after);
+});
+
+// Auto-hide listings once enough independent users report them. A reporter re-filing
+// over their closed report overwrites the same doc, so watch writes rather than creates.
+export const onReportFiled = onDocumentWritten('reports/{reportId}', async (event) => {
+  const before = event.data?.before.data();
+  const report = event.data?.after.data();
+  if (!report?.listingId || report.status !== 'open' || before?.status === 'open') return;
+
+  await applyReportsToListing(report.listingId);
+});
+
+// Account deletion needs a fresh sign-in, like changing a password
+const RECENT_SIGN_IN_SECONDS = 5 * 60;
+
+// "Download my data" in Profile
+export const exportMyData = onCall(async (request) => {
+  if (!request.auth) {
+    throw new HttpsError('unauthenticated', 'Sign in to download your data');
+  }
+
+  return exportUserData(request.auth.uid);
+});
+
+// "Delete my account" in Profile
+export const deleteMyAccount = onCall(async (request) => {
+  if (!request.auth) {
+    throw new HttpsError('unauthenticated', 'Sign in to delete your account');
+  }
+
+  if (Date.now() / 1000 - request.auth.token.auth_time > RECENT_SIGN_IN_SECONDS) {
+    throw new HttpsError('failed-precondition', 'For your security, sign out and back in, then delete your account');
+  }
+
+  await deleteUserData(request.auth.uid);
+  return { deleted: true };
+});
@@ -0,0 +1,47 @@
+import { logger } from 'firebase-functions';
+import { getFirestore, FieldValue } from 'firebase-admin/firestore';
+
+const LISTINGS_COLLECTION = 'listings';
+const USERS_COLLECTION = 'users';
+
+// Credit itemsTaken to the taker and itemsGiven to the poster once a claim has been
+// confirmed. statsCreditedAt makes this safe to run more than once for the same listing.
+export const creditConfirmedPickup = async (listingId: string): Promise<boolean> => {
+  const db = getFirestore();
+  const listingRef = db.collection(LISTINGS_COLLECTION).doc(listingId);
+
+  const credited = await db.runTransaction(async (transaction) => {
+    const snap = await transaction.get(listingRef);
+    const listing = snap.data();
+    if (!listing || listing.status !== 'taken' || listing.statsCreditedAt) return false;
+
+    const { userId, takenBy, confirmedBy } = listing;
+    if (typeof takenBy !== 'string' || typeof confirmedBy !== 'string') return false;
+    if (takenBy === userId || confirmedBy === takenBy) {
+      logger.warn(`Refusing to credit self-confirmed pickup on listing ${listingId}`);
+      return false;
+    }
+
+    // Don't recreate the profile of someone who has deleted their account since
+    const takerRef = db.collection(USERS_COLLECTION).doc(takenBy);
+    const giverRef = db.collection(USERS_COLLECTION).doc(userId);
+    const [taker, giver] = await Promise.all([transaction.get(takerRef), transaction.get(giverRef)]);
+
+    if (taker.exists) {
+      transaction.update(takerRef, { itemsTaken: FieldValue.increment(1) });
+    }
+    if (giver.exists) {
+      transaction.update(giverRef, { itemsGiven: FieldValue.increment(1) });
+    }
+    transaction.update(listingRef, {
+      statsCreditedAt: FieldValue.serverTimestamp(),
+    });
+
+    return true;
+  });
+
+  if (credited) {
+    logger.info(`Credited confirmed pickup on listing ${listingId}`);
+  }
+  return credited;
+};
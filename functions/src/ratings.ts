@@ -0,0 +1,42 @@
+import { logger } from 'firebase-functions';
+import { getFirestore, AggregateField } from 'firebase-admin/firestore';
+
+const USERS_COLLECTION = 'users';
+const RATINGS_SUBCOLLECTION = 'ratings';
+
+// Averages are stored to 2 decimals. Must match addRatingToListing in src/services/firestore.ts
+// so a listing shows the same average whichever path wrote it last.
+export const roundRating = (average: number): number => parseFloat(average.toFixed(2));
+
+// Recompute a giver's profile rating from every rating their listings have received.
+// Rating docs carry listingOwnerId so this is a single collection-group aggregation.
+export const recomputeUserRating = async (userId: string): Promise<void> => {
+  const db = getFirestore();
+
+  const snapshot = await db
+    .collectionGroup(RATINGS_SUBCOLLECTION)
+    .where('listingOwnerId', '==', userId)
+    .aggregate({
+      average: AggregateField.average('rating'),
+      count: AggregateField.count(),
+    })
+    .get();
+
+  const { average, count } = snapshot.data();
+  const rating = count > 0 && average !== null ? roundRating(average) : 0;
+
+  // Deleting an account deletes its listings' ratings, and each of those fires this again.
+  // Only update a profile that still exists so it isn't brought back.
+  const userRef = db.collection(USERS_COLLECTION).doc(userId);
+  if (!(await userRef.get()).exists) {
+    logger.info(`Skipped rating recompute for deleted user ${userId}`);
+    return;
+  }
+
+  await userRef.update({
+    rating,
+    ratingCount: count,
+  });
+
+  logger.info(`Recomputed rating for user ${userId}: ${rating} from ${count} ratings`);
+};
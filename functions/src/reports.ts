@@ -0,0 +1,55 @@
+import { logger } from 'firebase-functions';
+import { getFirestore, FieldValue } from 'firebase-admin/firestore';
+
+const LISTINGS_COLLECTION = 'listings';
+const REPORTS_COLLECTION = 'reports';
+const HISTORY_SUBCOLLECTION = 'history';
+
+// Independent reports (one per reporter) needed before a listing is hidden
+export const REPORT_HIDE_THRESHOLD = 3;
+
+// Record the listing's open report count, and pull it off the map once it reaches the
+// threshold. A moderator then removes it or restores it via resolveReports.
+export const applyReportsToListing = async (listingId: string): Promise<boolean> => {
+  const db = getFirestore();
+
+  const countSnapshot = await db
+    .collection(REPORTS_COLLECTION)
+    .where('listingId', '==', listingId)
+    .where('status', '==', 'open')
+    .count()
+    .get();
+  const reportCount = countSnapshot.data().count;
+
+  const listingRef = db.collection(LISTINGS_COLLECTION).doc(listingId);
+
+  return db.runTransaction(async (transaction) => {
+    const snap = await transaction.get(listingRef);
+    const listing = snap.data();
+    if (!listing) return false;
+
+    const shouldHide = reportCount >= REPORT_HIDE_THRESHOLD &&
+      ['active', 'reserved', 'claimed'].includes(listing.status);
+
+    transaction.update(listingRef, {
+      reportCount,
+      ...(shouldHide && {
+        status: 'hidden',
+        statusBeforeModeration: listing.status,
+        hiddenAt: FieldValue.serverTimestamp(),
+        updatedAt: FieldValue.serverTimestamp(),
+      }),
+    });
+
+    if (shouldHide) {
+      transaction.set(listingRef.collection(HISTORY_SUBCOLLECTION).doc(), {
+        event: 'hidden',
+        listingOwnerId: listing.userId || '',
+        details: `${reportCount} reports`,
+        at: FieldValue.serverTimestamp(),
+      });
+      logger.info(`Hid listing ${listingId} after ${reportCount} reports`);
+    }
+    return shouldHide;
+  });
+};
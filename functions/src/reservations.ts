@@ -0,0 +1,51 @@
+import { logger } from 'firebase-functions';
+import { getFirestore, FieldValue, Timestamp } from 'firebase-admin/firestore';
+
+const LISTINGS_COLLECTION = 'listings';
+const HISTORY_SUBCOLLECTION = 'history';
+
+// Firestore batches are capped at 500 writes, and each listing takes two (status + history)
+const BATCH_SIZE = 200;
+
+// Put reserved listings whose hold has lapsed back on the map.
+// Mirrors releaseReservation in src/services/firestore.ts.
+export const releaseLapsedReservations = async (now: Timestamp = Timestamp.now()): Promise<number> => {
+  const db = getFirestore();
+  let releasedCount = 0;
+
+  while (true) {
+    const snapshot = await db
+      .collection(LISTINGS_COLLECTION)
+      .where('status', '==', 'reserved')
+      .where('reservationExpiresAt', '<=', now)
+      .limit(BATCH_SIZE)
+      .get();
+
+    if (snapshot.empty) break;
+
+    const batch = db.batch();
+    snapshot.docs.forEach(doc => {
+      batch.update(doc.ref, {
+        status: 'active',
+        reservedBy: FieldValue.delete(),
+        reservedByName: FieldValue.delete(),
+        reservedAt: FieldValue.delete(),
+        reservationExpiresAt: FieldValue.delete(),
+        updatedAt: FieldValue.serverTimestamp(),
+      });
+      batch.set(doc.ref.collection(HISTORY_SUBCOLLECTION).doc(), {
+        event: 'released',
+        listingOwnerId: doc.get('userId') || '',
+        details: `hold by ${doc.get('reservedByName') || doc.get('reservedBy')} lapsed`,
+        at: FieldValue.serverTimestamp(),
+      });
+    });
+    await batch.commit();
+
+    releasedCount += snapshot.size;
+    if (snapshot.size < BATCH_SIZE) break;
+  }
+
+  logger.info(`Released ${releasedCount} lapsed reservations`);
+  return releasedCount;
+};
@@ -0,0 +1,77 @@
+import { logger } from 'firebase-functions';
+import { getFirestore, FieldValue, DocumentData } from 'firebase-admin/firestore';
+
+const SAVED_SEARCHES_COLLECTION = 'savedSearches';
+const USERS_COLLECTION = 'users';
+const NOTIFICATIONS_SUBCOLLECTION = 'notifications';
+
+// Firestore batches are capped at 500 writes
+const BATCH_SIZE = 400;
+
+// Haversine distance in km. Mirrors calculateDistance in src/services/firestore.ts.
+const distanceKm = (lat1: number, lng1: number, lat2: number, lng2: number): number => {
+  const R = 6371;
+  const dLat = (lat2 - lat1) * Math.PI / 180;
+  const dLng = (lng2 - lng1) * Math.PI / 180;
+  const a =
+    Math.sin(dLat / 2) * Math.sin(dLat / 2) +
+    Math.cos(lat1 * Math.PI / 180) * Math.cos(lat2 * Math.PI / 180) *
+    Math.sin(dLng / 2) * Math.sin(dLng / 2);
+  return R * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+};
+
+const matchesSearch = (listing: DocumentData, search: DocumentData): boolean => {
+  if (search.userId === listing.userId) return false;
+  if (search.category && search.category !== 'all' && search.category !== listing.category) return false;
+
+  // Every saved term has to appear in the listing's search index
+  const listingTokens = new Set<string>(listing.searchTokens || []);
+  if (!(search.termTokens || []).every((token: string) => listingTokens.has(token))) return false;
+
+  const { latitude, longitude } = listing.location.coordinates;
+  return distanceKm(search.center.lat, search.center.lng, latitude, longitude) <= search.radiusKm;
+};
+
+// Notify every user whose saved search matches a newly created listing. Saved searches
+// store the geohash cells covering their circle, so any prefix of the listing's geohash
+// finds the candidates; distance, category and terms are checked here.
+export const notifyMatchingSavedSearches = async (listingId: string, listing: DocumentData): Promise<number> => {
+  if (listing.status !== 'active' || typeof listing.geohash !== 'string') return 0;
+
+  const db = getFirestore();
+  const prefixes = Array.from({ length: listing.geohash.length }, (_, i) => listing.geohash.slice(0, i + 1));
+
+  const snapshot = await db
+    .collectionGroup(SAVED_SEARCHES_COLLECTION)
+    .where('geohashes', 'array-contains-any', prefixes)
+    .get();
+
+  const matches = snapshot.docs.filter(doc => matchesSearch(listing, doc.data()));
+
+  for (let i = 0; i < matches.length; i += BATCH_SIZE) {
+    const batch = db.batch();
+    matches.slice(i, i + BATCH_SIZE).forEach(searchDoc => {
+      const search = searchDoc.data();
+      // Keyed by listing + search so a retried trigger doesn't notify twice
+      const notificationRef = db
+        .collection(USERS_COLLECTION)
+        .doc(search.userId)
+        .collection(NOTIFICATIONS_SUBCOLLECTION)
+        .doc(`${listingId}_${searchDoc.id}`);
+
+      batch.set(notificationRef, {
+        type: 'saved-search-match',
+        title: `New match for "${search.name}"`,
+        body: listing.title,
+        listingId,
+        savedSearchId: searchDoc.id,
+        read: false,
+        createdAt: FieldValue.serverTimestamp(),
+      });
+    });
+    await batch.commit();
+  }
+
+  logger.info(`Listing ${listingId} matched ${matches.length} saved searches`);
+  return matches.length;
+};
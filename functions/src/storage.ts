@@ -0,0 +1,26 @@
+import { logger } from 'firebase-functions';
+import { getStorage } from 'firebase-admin/storage';
+
+// Download URLs look like .../v0/b/<bucket>/o/<url-encoded path>?alt=media&token=...
+const toStoragePath = (url: string): string | null => {
+  if (!url.includes('/v0/b/')) return null;
+
+  const match = url.match(/\/o\/([^?]+)/);
+  return match ? decodeURIComponent(match[1]) : null;
+};
+
+// Delete uploaded images by download URL. Seeded and external URLs are skipped, and a
+// failure is logged rather than thrown so it never blocks the rest of a cleanup.
+export const deleteStorageImages = async (urls: string[], owner: string): Promise<void> => {
+  const bucket = getStorage().bucket();
+
+  await Promise.all(urls.map(async url => {
+    const path = toStoragePath(url);
+    if (!path) return;
+    try {
+      await bucket.file(path).delete({ ignoreNotFound: true });
+    } catch (error) {
+      logger.warn(`Failed to delete image ${path} for ${owner}`, error);
+    }
+  }));
+};
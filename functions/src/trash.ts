@@ -0,0 +1,86 @@
+import { logger } from 'firebase-functions';
+import { HttpsError } from 'firebase-functions/v2/https';
+import { getFirestore, DocumentReference, FieldValue, Timestamp } from 'firebase-admin/firestore';
+import { deleteStorageImages } from './storage.js';
+
+const LISTINGS_COLLECTION = 'listings';
+const HISTORY_SUBCOLLECTION = 'history';
+
+// Subcollections deleted with a purged listing. History is kept on purpose so moderators
+// can still see what happened to the listing, and gets a last 'purged' entry.
+const PURGED_SUBCOLLECTIONS = ['comments', 'ratings'];
+
+// Must match TRASH_RETENTION_DAYS in src/services/firestore.ts
+const TRASH_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+
+// Listings are purged one at a time; this is how many are fetched per query
+const PAGE_SIZE = 100;
+
+// Permanently delete one listing with its images, comments and ratings. Deleting the
+// ratings fires onRatingWritten, which takes them out of the owner's profile rating.
+export const purgeListing = async (listingRef: DocumentReference, actorId?: string): Promise<void> => {
+  const db = getFirestore();
+  const listing = await listingRef.get();
+  if (!listing.exists) return;
+
+  // Images and subcollections first: if anything fails, the listing is still there to retry
+  await deleteStorageImages((listing.get('images') as string[] | undefined) || [], `listing ${listing.id}`);
+  for (const name of PURGED_SUBCOLLECTIONS) {
+    await db.recursiveDelete(listingRef.collection(name));
+  }
+
+  const batch = db.batch();
+  batch.delete(listingRef);
+  batch.set(listingRef.collection(HISTORY_SUBCOLLECTION).doc(), {
+    event: 'purged',
+    listingOwnerId: listing.get('userId') || '',
+    ...(actorId && { actorId }),
+    at: FieldValue.serverTimestamp(),
+  });
+  await batch.commit();
+};
+
+// "Delete forever" in the Profile trash, so the owner doesn't wait for purgeTrash
+export const purgeOwnListing = async (uid: string, listingId: string): Promise<void> => {
+  const listingRef = getFirestore().collection(LISTINGS_COLLECTION).doc(listingId);
+  const listing = await listingRef.get();
+
+  if (!listing.exists) return;
+  if (listing.get('userId') !== uid) {
+    throw new HttpsError('permission-denied', 'Only the owner can delete this listing');
+  }
+  if (listing.get('status') !== 'deleted') {
+    throw new HttpsError('failed-precondition', 'Only listings in the trash can be deleted permanently');
+  }
+
+  await purgeListing(listingRef, uid);
+  logger.info(`Purged listing ${listingId} for its owner ${uid}`);
+};
+
+// Permanently delete listings that have sat in the trash past the restore window
+export const purgeDeletedListings = async (now: Timestamp = Timestamp.now()): Promise<number> => {
+  const db = getFirestore();
+  const cutoff = Timestamp.fromMillis(now.toMillis() - TRASH_RETENTION_MS);
+  let purgedCount = 0;
+
+  while (true) {
+    const snapshot = await db
+      .collection(LISTINGS_COLLECTION)
+      .where('status', '==', 'deleted')
+      .where('deletedAt', '<=', cutoff)
+      .limit(PAGE_SIZE)
+      .get();
+
+    if (snapshot.empty) break;
+
+    for (const doc of snapshot.docs) {
+      await purgeListing(doc.ref);
+    }
+
+    purgedCount += snapshot.size;
+    if (snapshot.size < PAGE_SIZE) break;
+  }
+
+  logger.info(`Purged ${purgedCount} listings from the trash`);
+  return purgedCount;
+};
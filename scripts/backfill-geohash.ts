@@ -0,0 +1,69 @@
+// One-off backfill of the `geohash` field on listings created before proximity queries.
+// getNearbyListings filters on `geohash`, so listings without one never show up "nearby".
+//
+//   GOOGLE_CLOUD_PROJECT=<project-id> npm run backfill:geohash
+//
+// Uses Application Default Credentials (`gcloud auth application-default login`).
+// BACKFILL_DRY_RUN=1 only counts what would change. Re-running skips listings that are
+// already up to date, so it is safe to run again.
+import { initializeApp } from 'firebase-admin/app';
+import { FieldPath, getFirestore } from 'firebase-admin/firestore';
+import { encodeGeohash } from '../src/utils/geohash';
+
+// Firestore batches are capped at 500 writes
+const PAGE_SIZE = 400;
+const dryRun = process.env.BACKFILL_DRY_RUN === '1';
+
+if (!process.env.GOOGLE_CLOUD_PROJECT && !process.env.FIRESTORE_EMULATOR_HOST) {
+  console.error('❌ Set GOOGLE_CLOUD_PROJECT (or FIRESTORE_EMULATOR_HOST) to pick the project to backfill');
+  process.exit(1);
+}
+
+initializeApp();
+const db = getFirestore();
+
+const backfill = async () => {
+  console.log(`🧭 Backfilling listing geohashes${dryRun ? ' (dry run)' : ''}...`);
+  let scanned = 0;
+  let updated = 0;
+  let skipped = 0;
+  let lastId: string | undefined;
+
+  for (;;) {
+    let page = db.collection('listings').orderBy(FieldPath.documentId()).limit(PAGE_SIZE);
+    if (lastId) page = page.startAfter(lastId);
+    const snapshot = await page.get();
+    if (snapshot.empty) break;
+
+    const batch = db.batch();
+    let writes = 0;
+    snapshot.docs.forEach(listingDoc => {
+      const coordinates = listingDoc.get('location.coordinates');
+      if (typeof coordinates?.latitude !== 'number' || typeof coordinates?.longitude !== 'number') {
+        skipped++;
+        return;
+      }
+
+      const geohash = encodeGeohash(coordinates.latitude, coordinates.longitude);
+      if (listingDoc.get('geohash') === geohash) return;
+
+      // Only the geohash changes, so no listing triggers or updatedAt-based logic fire
+      batch.update(listingDoc.ref, { geohash });
+      writes++;
+    });
+
+    if (writes > 0 && !dryRun) {
+      await batch.commit();
+    }
+    scanned += snapshot.size;
+    updated += writes;
+    lastId = snapshot.docs[snapshot.docs.length - 1].id;
+  }
+
+  console.log(`✅ Scanned ${scanned} listings, ${dryRun ? 'would update' : 'updated'} ${updated}, skipped ${skipped} without coordinates`);
+};
+
+backfill().catch(error => {
+  console.error('❌ Backfill failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,84 @@
+// One-off move of the legacy `comments` array on listing docs into the
+// listings/{listingId}/comments subcollection the app now reads from.
+//
+//   GOOGLE_CLOUD_PROJECT=<project-id> npm run migrate:comments
+//
+// Uses Application Default Credentials (`gcloud auth application-default login`).
+// MIGRATE_DRY_RUN=1 only counts what would move. Migrated comments get ids derived from
+// their position in the array, so re-running after a partial failure never duplicates them.
+import { initializeApp } from 'firebase-admin/app';
+import { FieldPath, FieldValue, getFirestore, Timestamp } from 'firebase-admin/firestore';
+
+// Firestore batches are capped at 500 writes
+const BATCH_SIZE = 400;
+const dryRun = process.env.MIGRATE_DRY_RUN === '1';
+
+if (!process.env.GOOGLE_CLOUD_PROJECT && !process.env.FIRESTORE_EMULATOR_HOST) {
+  console.error('❌ Set GOOGLE_CLOUD_PROJECT (or FIRESTORE_EMULATOR_HOST) to pick the project to migrate');
+  process.exit(1);
+}
+
+initializeApp();
+const db = getFirestore();
+
+interface LegacyComment {
+  userId?: string;
+  username?: string;
+  userAvatar?: string;
+  text?: string;
+  createdAt?: Timestamp;
+}
+
+const migrate = async () => {
+  console.log(`💬 Moving legacy listing comments into subcollections${dryRun ? ' (dry run)' : ''}...`);
+  let listingCount = 0;
+  let commentCount = 0;
+  let lastId: string | undefined;
+
+  for (;;) {
+    let page = db.collection('listings').orderBy(FieldPath.documentId()).limit(BATCH_SIZE);
+    if (lastId) page = page.startAfter(lastId);
+    const snapshot = await page.get();
+    if (snapshot.empty) break;
+
+    for (const listingDoc of snapshot.docs) {
+      const legacy = listingDoc.get('comments');
+      if (!Array.isArray(legacy)) continue;
+
+      // Skip anything the old client could not have written
+      const comments = (legacy as LegacyComment[]).filter(comment =>
+        typeof comment?.userId === 'string' && typeof comment.text === 'string' && comment.text.trim()
+      );
+      listingCount++;
+      commentCount += comments.length;
+      if (dryRun) continue;
+
+      for (let start = 0; start < comments.length; start += BATCH_SIZE) {
+        const batch = db.batch();
+        comments.slice(start, start + BATCH_SIZE).forEach((comment, i) => {
+          batch.set(listingDoc.ref.collection('comments').doc(`legacy-${start + i}`), {
+            userId: comment.userId,
+            username: comment.username || 'Unknown',
+            ...(comment.userAvatar && { userAvatar: comment.userAvatar }),
+            text: comment.text!.trim().slice(0, 500),
+            // Not every legacy comment has a usable createdAt, so fall back to the listing's
+            createdAt: comment.createdAt instanceof Timestamp ? comment.createdAt : listingDoc.get('createdAt'),
+          });
+        });
+        await batch.commit();
+      }
+
+      // Only drop the array once every comment is safely in the subcollection
+      await listingDoc.ref.update({ comments: FieldValue.delete() });
+    }
+
+    lastId = snapshot.docs[snapshot.docs.length - 1].id;
+  }
+
+  console.log(`✅ ${dryRun ? 'Would move' : 'Moved'} ${commentCount} comments from ${listingCount} listings`);
+};
+
+migrate().catch(error => {
+  console.error('❌ Migration failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,181 @@
+// Seed the local emulators with users and listings for development.
+//
+//   npm run emulators   # in one terminal
+//   npm run seed        # in another
+//
+// SEED_CENTER="lat,lng", SEED_RADIUS_KM and SEED_LISTINGS tune where and how much.
+// Re-running overwrites the same documents, so it is safe to seed again.
+import { initializeApp } from 'firebase-admin/app';
+import { getAuth } from 'firebase-admin/auth';
+import { getFirestore, GeoPoint, Timestamp } from 'firebase-admin/firestore';
+import { encodeGeohash } from '../src/utils/geohash';
+import { buildSearchTokens } from '../src/utils/searchIndex';
+
+// Point the Admin SDK at the emulators before it is initialized - never at a real project
+process.env.FIRESTORE_EMULATOR_HOST ||= '127.0.0.1:8080';
+process.env.FIREBASE_AUTH_EMULATOR_HOST ||= '127.0.0.1:9099';
+
+// Must match EMULATOR_PROJECT_ID in src/firebase.config.ts
+const PROJECT_ID = 'demo-takemehomebox';
+const PASSWORD = 'password123';
+const LISTING_TTL_MS = 48 * 60 * 60 * 1000;
+// Firestore batches are capped at 500 writes
+const BATCH_SIZE = 400;
+
+const [centerLat, centerLng] = (process.env.SEED_CENTER || '51.505,-0.09').split(',').map(Number);
+const radiusKm = Number(process.env.SEED_RADIUS_KM || 3);
+const listingCount = Number(process.env.SEED_LISTINGS || 40);
+
+if ([centerLat, centerLng, radiusKm, listingCount].some(Number.isNaN)) {
+  console.error('❌ SEED_CENTER must be "lat,lng" and SEED_RADIUS_KM / SEED_LISTINGS numbers');
+  process.exit(1);
+}
+
+const USERS = [
+  { uid: 'seed-admin', username: 'Alex Admin', role: 'admin', bio: 'Keeping the boxes tidy.' },
+  { uid: 'seed-mod', username: 'Morgan Mod', role: 'moderator', bio: 'Reports go to me.' },
+  { uid: 'seed-sam', username: 'Sam Giver', role: 'user', bio: 'Decluttering one box at a time.' },
+  { uid: 'seed-jo', username: 'Jo Collector', role: 'user', bio: 'Always on the lookout for books.' },
+  { uid: 'seed-riley', username: 'Riley Spotter', role: 'user', bio: 'I spot boxes on my morning run.' },
+  { uid: 'seed-casey', username: 'Casey Mover', role: 'user', bio: 'Moving house, everything must go.' },
+] as const;
+
+const ITEMS: Record<string, string[]> = {
+  books: ['Box of paperback novels', 'Kids picture books', 'Old cookbooks', 'Travel guides'],
+  clothes: ['Winter coats', 'Baby clothes 0-6 months', 'Bag of t-shirts', 'Pair of hiking boots'],
+  toys: ['Lego bits and pieces', 'Board games', 'Soft toys', 'Wooden train set'],
+  kitchen: ['Mugs and plates', 'Set of saucepans', 'Glass jars', 'Toaster, works fine'],
+  electronics: ['Old phone chargers', 'Desk lamp', 'Computer speakers', 'Keyboard and mouse'],
+  furniture: ['Bedside table', 'Two dining chairs', 'Small bookshelf', 'Coffee table'],
+  garden: ['Plant pots', 'Tomato seedlings', 'Garden tools', 'Bag of compost'],
+  sports: ['Tennis rackets', 'Yoga mat', 'Football', 'Bike helmet'],
+  other: ['Picture frames', 'Moving boxes', 'Craft supplies', 'Umbrella stand'],
+};
+
+const IMAGE = 'https://images.pexels.com/photos/416978/pexels-photo-416978.jpeg?auto=compress&cs=tinysrgb&w=400';
+
+// Seeded PRNG so every run scatters the same boxes in the same places
+let state = 42;
+const random = () => {
+  state = (state * 1664525 + 1013904223) % 4294967296;
+  return state / 4294967296;
+};
+const pick = <T>(items: readonly T[]): T => items[Math.floor(random() * items.length)];
+
+// Uniform point within radiusKm of the center
+const randomPoint = () => {
+  const distance = radiusKm * Math.sqrt(random());
+  const bearing = random() * 2 * Math.PI;
+  const lat = centerLat + (distance / 111.32) * Math.cos(bearing);
+  const lng = centerLng + (distance / (111.32 * Math.cos(centerLat * Math.PI / 180))) * Math.sin(bearing);
+  return { lat, lng };
+};
+
+const app = initializeApp({ projectId: PROJECT_ID });
+const auth = getAuth(app);
+const db = getFirestore(app);
+
+const seedUsers = async () => {
+  const now = new Date().toISOString();
+
+  for (const user of USERS) {
+    const email = `${user.uid.replace('seed-', '')}@example.com`;
+
+    try {
+      await auth.createUser({ uid: user.uid, email, password: PASSWORD, displayName: user.username });
+    } catch (error) {
+      if ((error as { code?: string }).code !== 'auth/uid-already-exists') throw error;
+      await auth.updateUser(user.uid, { email, password: PASSWORD, displayName: user.username });
+    }
+
+    // Mirrors createUserProfile in AuthContext
+    await db.collection('users').doc(user.uid).set({
+      id: user.uid,
+      uid: user.uid,
+      username: user.username,
+      email,
+      bio: user.bio,
+      rating: 0,
+      ratingCount: 0,
+      itemsGiven: 0,
+      itemsTaken: 0,
+      avatar: '',
+      role: user.role,
+      createdAt: now,
+      lastActive: now,
+    });
+  }
+
+  console.log(`👤 Seeded ${USERS.length} users (password: ${PASSWORD})`);
+};
+
+const seedListings = async () => {
+  const givers = USERS.filter(user => user.role === 'user');
+  let batch = db.batch();
+
+  for (let i = 0; i < listingCount; i++) {
+    if (i > 0 && i % BATCH_SIZE === 0) {
+      await batch.commit();
+      batch = db.batch();
+    }
+
+    const giver = pick(givers);
+    const category = pick(Object.keys(ITEMS));
+    const title = pick(ITEMS[category]);
+    const description = `${title}. Left outside, help yourself!`;
+    const isSpotted = giver.uid === 'seed-riley';
+    const { lat, lng } = randomPoint();
+    const createdAt = Date.now() - Math.floor(random() * 24 * 60 * 60 * 1000);
+
+    // Mostly live boxes, with a few taken and expired ones for the Profile tabs
+    const roll = random();
+    const status = roll < 0.85 ? 'active' : roll < 0.93 ? 'taken' : 'expired';
+
+    // Every fifth box lists what's in it, so items can be taken one at a time
+    const items = i % 5 === 0
+      ? ITEMS[category].map((name, index) => ({ id: `item-${index}`, name, category, taken: false }))
+      : [];
+
+    batch.set(db.collection('listings').doc(`seed-listing-${i}`), {
+      title,
+      description,
+      category,
+      images: [IMAGE],
+      location: {
+        address: 'Location set on map',
+        coordinates: new GeoPoint(lat, lng),
+      },
+      geohash: encodeGeohash(lat, lng),
+      searchTokens: buildSearchTokens({ title, description, category, items }),
+      ...(items.length > 0 && { items }),
+      isSpotted,
+      userId: giver.uid,
+      userEmail: `${giver.uid.replace('seed-', '')}@example.com`,
+      username: giver.username,
+      rating: 0,
+      ratingCount: 0,
+      ratingSum: 0,
+      status,
+      createdAt: Timestamp.fromMillis(createdAt),
+      updatedAt: Timestamp.fromMillis(createdAt),
+      ...(!isSpotted && {
+        expiresAt: Timestamp.fromMillis(status === 'expired' ? Date.now() - 60 * 1000 : createdAt + LISTING_TTL_MS),
+      }),
+    });
+  }
+
+  await batch.commit();
+  console.log(`📦 Seeded ${listingCount} listings within ${radiusKm} km of ${centerLat},${centerLng}`);
+};
+
+const seed = async () => {
+  console.log(`🌱 Seeding emulators for ${PROJECT_ID}...`);
+  await seedUsers();
+  await seedListings();
+  console.log('✅ Done. Sign in as sam@example.com, jo@example.com or admin@example.com');
+};
+
+seed().catch(error => {
+  console.error('❌ Seeding failed:', error);
+  process.exit(1);
+});
@@ -1,10 +1,15 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { Camera, MapPin, Calendar, Tag, Upload, X, Locate, AlertCircle, CheckCircle } from 'lucide-react';
+import { Camera, MapPin, Calendar, Tag, Upload, X, Locate, AlertCircle, CheckCircle, Plus, ListChecks } from 'lucide-react';
+import { useParams, useNavigate } from 'react-router-dom';
 import { loadGoogleMapsScript, getDarkMapStyles, getCurrentLocation } from '../utils/googleMaps';
-import { createListing, BoxListingInput } from '../services/firestore';
+import { createListing, getListing, updateListing, BoxListingInput, ListingItemInput } from '../services/firestore';
+import { MAX_LISTING_ITEMS, MAX_LISTING_ITEM_NAME_LENGTH } from '../services/converters';
 import { useAuth } from '../contexts/AuthContext';
 import MultiImageUpload from './MultiImageUpload';
 
+// Items already taken are shown but can't be edited
+type FormItem = ListingItemInput & { taken?: boolean };
+
 declare global {
   interface Window {
     google: any;
@@ -13,6 +18,11 @@ declare global {
 
 const AddListing: React.FC = () => {
   const { user } = useAuth();
+  const navigate = useNavigate();
+  // ✅ NEW: Edit mode when opened from a Profile listing card
+  const { listingId } = useParams<{ listingId: string }>();
+  const isEditMode = Boolean(listingId);
+  const [loadingListing, setLoadingListing] = useState(isEditMode);
   const [formData, setFormData] = useState({
     title: '',
     description: '',
@@ -20,7 +30,8 @@ const AddListing: React.FC = () => {
     images: [] as string[],
     location: '',
     coordinates: null as { lat: number; lng: number } | null,
-    isSpotted: false
+    isSpotted: false,
+    items: [] as FormItem[]
   });
 
   const mapRef = useRef<HTMLDivElement>(null);
@@ -38,6 +49,51 @@ const AddListing: React.FC = () => {
     'Books', 'Clothes', 'Toys', 'Kitchen', 'Electronics', 'Furniture', 'Garden', 'Sports', 'Other'
   ];
 
+  // Load the listing being edited into the form
+  useEffect(() => {
+    if (!listingId || !user) return;
+
+    const loadListing = async () => {
+      setLoadingListing(true);
+      try {
+        const listing = await getListing(listingId);
+
+        if (!listing) {
+          setSubmitError('This listing no longer exists.');
+          return;
+        }
+
+        if (listing.userId !== user.uid) {
+          setSubmitError('You can only edit your own listings.');
+          return;
+        }
+
+        setFormData({
+          title: listing.title,
+          description: listing.description,
+          category: listing.category,
+          images: listing.images || [],
+          location: listing.location.address,
+          coordinates: {
+            lat: listing.location.coordinates.latitude,
+            lng: listing.location.coordinates.longitude,
+          },
+          isSpotted: listing.isSpotted,
+          items: (listing.items || []).map(({ id, name, category, imageIndex, taken }) => ({
+            id, name, category, imageIndex, taken
+          })),
+        });
+      } catch (error) {
+        console.error('Error loading listing for editing:', error);
+        setSubmitError('Failed to load listing. Please try again.');
+      } finally {
+        setLoadingListing(false);
+      }
+    };
+
+    loadListing();
+  }, [listingId, user]);
+
   // Load Google Maps
   useEffect(() => {
     const initializeMaps = async () => {
@@ -83,32 +139,18 @@ const AddListing: React.FC = () => {
           }));
 
           // Update marker position
-          if (markerRef.current) {
-            markerRef.current.setPosition({ lat, lng });
-          } else {
-            markerRef.current = new window.google.maps.Marker({
-              position: { lat, lng },
-              map: googleMapRef.current,
-              title: 'Box Location',
-              draggable: true,
-            });
-
-            markerRef.current.addListener('dragend', (event: any) => {
-              const newLat = event.latLng.lat();
-              const newLng = event.latLng.lng();
-              setFormData(prev => ({
-                ...prev,
-                coordinates: { lat: newLat, lng: newLng }
-              }));
-              reverseGeocode(newLat, newLng);
-            });
-          }
+          placeMarker({ lat, lng });
 
           reverseGeocode(lat, lng);
         });
 
-        // Get user's current location
-        getCurrentUserLocation();
+        if (formData.coordinates) {
+          // Editing: start from the listing's saved location
+          placeMarker(formData.coordinates);
+        } else {
+          // Get user's current location
+          getCurrentUserLocation();
+        }
       } catch (error) {
         console.error('Error initializing map:', error);
         setMapsError('Failed to initialize map');
@@ -116,6 +158,30 @@ const AddListing: React.FC = () => {
     }
   }, [showMap, mapsLoaded]);
 
+  const placeMarker = (position: { lat: number; lng: number }) => {
+    if (markerRef.current) {
+      markerRef.current.setPosition(position);
+      return;
+    }
+
+    markerRef.current = new window.google.maps.Marker({
+      position,
+      map: googleMapRef.current,
+      title: 'Box Location',
+      draggable: true,
+    });
+
+    markerRef.current.addListener('dragend', (event: any) => {
+      const newLat = event.latLng.lat();
+      const newLng = event.latLng.lng();
+      setFormData(prev => ({
+        ...prev,
+        coordinates: { lat: newLat, lng: newLng }
+      }));
+      reverseGeocode(newLat, newLng);
+    });
+  };
+
   const reverseGeocode = (lat: number, lng: number) => {
     if (!window.google || !window.google.maps) return;
     
@@ -159,9 +225,40 @@ const AddListing: React.FC = () => {
       images: images
     });
     
+    // Keep each item pointing at the same photo, or at none if it was removed
     setFormData({
       ...formData,
-      images
+      images,
+      items: formData.items.map(item => {
+        if (item.imageIndex === undefined) return item;
+        const imageIndex = images.indexOf(formData.images[item.imageIndex]);
+        return { ...item, imageIndex: imageIndex >= 0 ? imageIndex : undefined };
+      })
+    });
+  };
+
+  // ✅ NEW: Item list for multi-item boxes
+  const handleAddItem = () => {
+    setFormData({
+      ...formData,
+      items: [
+        ...formData.items,
+        { id: Math.random().toString(36).substring(2), name: '', category: formData.category || 'other' }
+      ]
+    });
+  };
+
+  const handleItemChange = (itemId: string, changes: Partial<FormItem>) => {
+    setFormData({
+      ...formData,
+      items: formData.items.map(item => item.id === itemId ? { ...item, ...changes } : item)
+    });
+  };
+
+  const handleRemoveItem = (itemId: string) => {
+    setFormData({
+      ...formData,
+      items: formData.items.filter(item => item.id !== itemId)
     });
   };
 
@@ -185,17 +282,7 @@ const AddListing: React.FC = () => {
 
       if (googleMapRef.current) {
         googleMapRef.current.setCenter(location);
-        
-        if (markerRef.current) {
-          markerRef.current.setPosition(location);
-        } else {
-          markerRef.current = new window.google.maps.Marker({
-            position: location,
-            map: googleMapRef.current,
-            title: 'Box Location',
-            draggable: true,
-          });
-        }
+        placeMarker(location);
 
         reverseGeocode(location.lat, location.lng);
       }
@@ -215,7 +302,8 @@ const AddListing: React.FC = () => {
       images: [],
       location: '',
       coordinates: null,
-      isSpotted: false
+      isSpotted: false,
+      items: []
     });
     setShowMap(false);
     setSubmitSuccess(false);
@@ -269,6 +357,16 @@ const AddListing: React.FC = () => {
     
     setSubmitting(true);
     setSubmitError(null);
+
+    // Blank rows are dropped rather than rejected
+    const items: ListingItemInput[] = formData.items
+      .filter(item => item.name.trim())
+      .map(({ id, name, category, imageIndex }) => ({
+        id,
+        name: name.trim(),
+        category,
+        ...(imageIndex !== undefined && { imageIndex }),
+      }));
     
     try {
       // Ensure we have all required user fields
@@ -294,6 +392,25 @@ const AddListing: React.FC = () => {
         throw new Error('Username is missing. Please update your profile.');
       }
 
+      if (isEditMode && listingId) {
+        await updateListing(listingId, {
+          title: formData.title,
+          description: formData.description,
+          category: formData.category,
+          images: formData.images,
+          items,
+          location: {
+            address: formData.location || 'Location set on map',
+            coordinates: formData.coordinates,
+          },
+        });
+
+        console.log('✅ [DEBUG] Listing updated:', listingId);
+        setSubmitSuccess(true);
+        setTimeout(() => navigate('/profile'), 1500);
+        return;
+      }
+
       const listingData: BoxListingInput = {
         title: formData.title || 'Untitled Box', // Default title if empty
         description: formData.description || 'No description provided', // Default description
@@ -307,15 +424,16 @@ const AddListing: React.FC = () => {
         userId: userId,
         userEmail: userEmail,
         username: username,
+        ...(items.length > 0 && { items }),
       };
 
       console.log('🟡 [DEBUG] Prepared listing data for submission:', listingData);
       console.log('🟡 [DEBUG] About to call createListing function...');
       
-      const listingId = await createListing(listingData);
+      const createdListingId = await createListing(listingData);
       
       console.log('🎉 [DEBUG] ===== LISTING CREATION SUCCESS =====');
-      console.log('✅ [DEBUG] Listing created with ID:', listingId);
+      console.log('✅ [DEBUG] Listing created with ID:', createdListingId);
       
       setSubmitSuccess(true);
       
@@ -373,13 +491,26 @@ const AddListing: React.FC = () => {
     );
   }
 
+  if (loadingListing) {
+    return (
+      <div className="min-h-screen bg-deep-blue flex items-center justify-center p-6">
+        <div className="text-center">
+          <div className="w-6 h-6 border-2 border-silver/30 border-t-silver rounded-full animate-spin mx-auto mb-2"></div>
+          <p className="text-silver text-sm">Loading listing...</p>
+        </div>
+      </div>
+    );
+  }
+
   return (
     <div className="min-h-screen bg-deep-blue">
       {/* Header */}
       <div className="card-dark border-b border-silver/30">
         <div className="p-4">
           <h1 className="text-xl font-bold text-silver-light">
-            {formData.isSpotted ? 'Report a Spotted Box' : 'List a TakeMeHomeBox'}
+            {isEditMode
+              ? 'Edit Listing'
+              : formData.isSpotted ? 'Report a Spotted Box' : 'List a TakeMeHomeBox'}
           </h1>
           <p className="text-sm text-silver/60 mt-1">
             Only location is required - all other fields are optional
@@ -393,8 +524,12 @@ const AddListing: React.FC = () => {
           <div className="bg-green-500/20 border border-green-500/30 rounded-lg p-4 flex items-center space-x-3">
             <CheckCircle className="w-5 h-5 text-green-400 flex-shrink-0" />
             <div>
-              <p className="text-green-400 font-medium">Listing Created Successfully!</p>
-              <p className="text-green-400/80 text-sm">Your box is now visible to the community.</p>
+              <p className="text-green-400 font-medium">
+                {isEditMode ? 'Listing Updated!' : 'Listing Created Successfully!'}
+              </p>
+              <p className="text-green-400/80 text-sm">
+                {isEditMode ? 'Taking you back to your profile...' : 'Your box is now visible to the community.'}
+              </p>
             </div>
           </div>
         </div>
@@ -406,7 +541,9 @@ const AddListing: React.FC = () => {
           <div className="bg-red-500/20 border border-red-500/30 rounded-lg p-4 flex items-center space-x-3">
             <AlertCircle className="w-5 h-5 text-red-400 flex-shrink-0" />
             <div>
-              <p className="text-red-400 text-sm font-medium">Error Creating Listing</p>
+              <p className="text-red-400 text-sm font-medium">
+                {isEditMode ? 'Error Saving Listing' : 'Error Creating Listing'}
+              </p>
               <p className="text-red-400/80 text-sm">{submitError}</p>
             </div>
           </div>
@@ -425,7 +562,7 @@ const AddListing: React.FC = () => {
                 checked={!formData.isSpotted}
                 onChange={() => setFormData({ ...formData, isSpotted: false })}
                 className="mr-2 text-silver accent-silver"
-                disabled={submitting}
+                disabled={submitting || isEditMode}
               />
               <span className="text-silver">My Box</span>
             </label>
@@ -436,7 +573,7 @@ const AddListing: React.FC = () => {
                 checked={formData.isSpotted}
                 onChange={() => setFormData({ ...formData, isSpotted: true })}
                 className="mr-2 text-silver accent-silver"
-                disabled={submitting}
+                disabled={submitting || isEditMode}
               />
               <span className="text-silver">Spotted Box</span>
             </label>
@@ -573,8 +710,85 @@ const AddListing: React.FC = () => {
           </p>
         </div>
 
+        {/* ✅ NEW: Items - OPTIONAL */}
+        <div className="card-dark p-4">
+          <h3 className="font-semibold text-silver-light mb-1 flex items-center">
+            <ListChecks className="w-5 h-5 mr-2" />
+            What's in the box <span className="ml-1 text-xs text-silver/60">(Optional)</span>
+          </h3>
+          <p className="text-xs text-silver/60 mb-3">
+            List items separately so people can take just one. The box is marked taken once everything is gone.
+          </p>
+
+          <div className="space-y-2">
+            {formData.items.map((item) => (
+              <div key={item.id} className="flex items-center space-x-2">
+                <input
+                  type="text"
+                  value={item.name}
+                  onChange={(e) => handleItemChange(item.id, { name: e.target.value })}
+                  placeholder="e.g., Desk lamp"
+                  maxLength={MAX_LISTING_ITEM_NAME_LENGTH}
+                  className={`input-dark flex-1 min-w-0 px-3 py-2 rounded-lg text-sm ${item.taken ? 'line-through opacity-50' : ''}`}
+                  disabled={submitting || item.taken}
+                />
+                <select
+                  value={item.category}
+                  onChange={(e) => handleItemChange(item.id, { category: e.target.value })}
+                  className="input-dark px-2 py-2 rounded-lg text-sm"
+                  disabled={submitting || item.taken}
+                  title="Item category"
+                >
+                  {categories.map((category) => (
+                    <option key={category} value={category.toLowerCase()}>
+                      {category}
+                    </option>
+                  ))}
+                </select>
+                {formData.images.length > 0 && (
+                  <select
+                    value={item.imageIndex ?? ''}
+                    onChange={(e) => handleItemChange(item.id, {
+                      imageIndex: e.target.value === '' ? undefined : Number(e.target.value)
+                    })}
+                    className="input-dark px-2 py-2 rounded-lg text-sm"
+                    disabled={submitting || item.taken}
+                    title="Which photo shows it"
+                  >
+                    <option value="">No photo</option>
+                    {formData.images.map((_, index) => (
+                      <option key={index} value={index}>Photo {index + 1}</option>
+                    ))}
+                  </select>
+                )}
+                <button
+                  type="button"
+                  onClick={() => handleRemoveItem(item.id)}
+                  className="text-red-400 hover:text-red-300 p-1"
+                  disabled={submitting}
+                  title="Remove item"
+                >
+                  <X className="w-4 h-4" />
+                </button>
+              </div>
+            ))}
+          </div>
+
+          {formData.items.length < MAX_LISTING_ITEMS && (
+            <button
+              type="button"
+              onClick={handleAddItem}
+              className="btn-secondary text-sm mt-3 flex items-center"
+              disabled={submitting}
+            >
+              <Plus className="w-4 h-4 mr-1" />
+              Add item
+            </button>
+          )}
+        </div>
+
         {/* Auto-expire info */}
-        {!formData.isSpotted && (
+        {!formData.isSpotted && !isEditMode && (
           <div className="bg-dark-blue-light rounded-xl p-4 border border-silver/30">
             <div className="flex items-start space-x-3">
               <Calendar className="w-5 h-5 text-silver mt-0.5" />
@@ -599,10 +813,14 @@ const AddListing: React.FC = () => {
           {submitting ? (
             <>
               <div className="w-5 h-5 border-2 border-silver/30 border-t-silver rounded-full animate-spin"></div>
-              <span>Creating Listing...</span>
+              <span>{isEditMode ? 'Saving Changes...' : 'Creating Listing...'}</span>
             </>
           ) : (
-            <span>{formData.isSpotted ? 'Report Spotted Box' : 'List My Box'}</span>
+            <span>
+              {isEditMode
+                ? 'Save Changes'
+                : formData.isSpotted ? 'Report Spotted Box' : 'List My Box'}
+            </span>
           )}
         </button>
 
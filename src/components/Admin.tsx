@@ -0,0 +1,235 @@
+import React, { useState, useEffect } from 'react';
+import { ArrowLeft, Flag, Package, Users, History, Loader } from 'lucide-react';
+import { Navigate, useNavigate } from 'react-router-dom';
+import { Timestamp } from 'firebase/firestore';
+import ModerationQueue from './ModerationQueue';
+import ListingHistoryModal from './ListingHistoryModal';
+import {
+  getRecentListings,
+  moderateListing,
+  getUsers,
+  setUserSuspended,
+  BoxListing,
+  UserSummary
+} from '../services/firestore';
+import { useAuth } from '../contexts/AuthContext';
+
+type AdminTab = 'reports' | 'listings' | 'users';
+
+const STATUS_STYLES: Record<string, string> = {
+  hidden: 'bg-yellow-500/20 text-yellow-400 border-yellow-500/30',
+  removed: 'bg-red-500/20 text-red-400 border-red-500/30',
+};
+
+// Moderator/admin console. Every action here is also enforced by firestore.rules.
+const Admin: React.FC = () => {
+  const navigate = useNavigate();
+  const { user } = useAuth();
+  const [activeTab, setActiveTab] = useState<AdminTab>('reports');
+  const [listings, setListings] = useState<BoxListing[]>([]);
+  const [users, setUsers] = useState<UserSummary[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [historyListing, setHistoryListing] = useState<BoxListing | null>(null);
+
+  const isModerator = user?.role === 'moderator' || user?.role === 'admin';
+  const isAdmin = user?.role === 'admin';
+
+  useEffect(() => {
+    if (!isModerator || activeTab === 'reports') return;
+
+    setLoading(true);
+    const load = activeTab === 'listings'
+      ? getRecentListings().then(setListings)
+      : getUsers().then(setUsers);
+
+    load
+      .catch(error => console.error(`Error loading admin ${activeTab}:`, error))
+      .finally(() => setLoading(false));
+  }, [activeTab, isModerator]);
+
+  const handleModerateListing = async (listing: BoxListing, action: 'remove' | 'restore') => {
+    if (!user) return;
+    if (action === 'remove' && !confirm(`Remove "${listing.title}"?`)) return;
+
+    setBusyId(listing.id!);
+    try {
+      await moderateListing(listing.id!, user.uid, action);
+      setListings(prev => prev.map(item => item.id === listing.id
+        ? { ...item, status: action === 'remove' ? 'removed' : item.statusBeforeModeration || 'active' }
+        : item
+      ));
+    } catch (error) {
+      console.error('Error moderating listing:', error);
+      alert(error instanceof Error ? error.message : 'Failed to update listing. Please try again.');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleToggleSuspended = async (target: UserSummary) => {
+    if (!user) return;
+
+    const suspend = !target.suspended;
+    if (suspend && !confirm(`Suspend ${target.username}? They won't be able to post, comment or message.`)) return;
+
+    setBusyId(target.id);
+    try {
+      await setUserSuspended(target.id, user.uid, suspend);
+      setUsers(prev => prev.map(item => item.id === target.id ? { ...item, suspended: suspend } : item));
+    } catch (error) {
+      console.error('Error updating user:', error);
+      alert(error instanceof Error ? error.message : 'Failed to update user. Please try again.');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const formatDate = (timestamp?: Timestamp) =>
+    timestamp?.toDate ? timestamp.toDate().toLocaleString() : '';
+
+  // Rules reject non-moderators anyway; this just keeps them off an empty screen
+  if (!isModerator) {
+    return <Navigate to="/profile" replace />;
+  }
+
+  const tabs = [
+    { key: 'reports' as const, label: 'Reports', icon: Flag },
+    { key: 'listings' as const, label: 'Listings', icon: Package },
+    { key: 'users' as const, label: 'Users', icon: Users },
+  ];
+
+  return (
+    <div className="min-h-screen bg-deep-blue">
+      {/* Header */}
+      <div className="card-dark border-b border-silver/30">
+        <div className="p-4">
+          <div className="flex items-center space-x-3">
+            <button
+              onClick={() => navigate(-1)}
+              className="btn-secondary p-2"
+            >
+              <ArrowLeft className="w-5 h-5" />
+            </button>
+            <h1 className="text-xl font-bold text-silver-light">Admin Console</h1>
+          </div>
+        </div>
+
+        <div className="flex border-t border-silver/30">
+          {tabs.map((tab) => {
+            const Icon = tab.icon;
+            return (
+              <button
+                key={tab.key}
+                onClick={() => setActiveTab(tab.key)}
+                className={`flex-1 p-3 text-sm font-medium transition-colors flex items-center justify-center ${
+                  activeTab === tab.key
+                    ? 'text-silver-light bg-dark-blue-light border-b-2 border-silver'
+                    : 'text-silver/60 hover:text-silver'
+                }`}
+              >
+                <Icon className="w-4 h-4 mr-2" />
+                {tab.label}
+              </button>
+            );
+          })}
+        </div>
+      </div>
+
+      <div className="p-4">
+        {activeTab === 'reports' ? (
+          <ModerationQueue />
+        ) : loading ? (
+          <div className="flex items-center justify-center py-8 text-silver">
+            <Loader className="w-5 h-5 animate-spin mr-2" />
+            Loading...
+          </div>
+        ) : activeTab === 'listings' ? (
+          <div className="space-y-3">
+            {listings.map((listing) => (
+              <div key={listing.id} className="card-dark p-4">
+                <div className="flex items-start justify-between">
+                  <div className="min-w-0">
+                    <h3 className="font-medium text-silver-light truncate">{listing.title}</h3>
+                    <p className="text-xs text-silver/60">
+                      {listing.username} · {formatDate(listing.createdAt)}
+                    </p>
+                  </div>
+                  <span className={`ml-2 px-2 py-1 text-xs rounded-full border capitalize ${
+                    STATUS_STYLES[listing.status] || 'bg-dark-blue text-silver border-silver/30'
+                  }`}>
+                    {listing.status}
+                  </span>
+                </div>
+                <div className="flex space-x-2 mt-3">
+                  {listing.status === 'hidden' || listing.status === 'removed' ? (
+                    <button
+                      onClick={() => handleModerateListing(listing, 'restore')}
+                      disabled={busyId === listing.id}
+                      className="btn-secondary text-xs px-3 py-1 disabled:opacity-50"
+                    >
+                      Restore
+                    </button>
+                  ) : (
+                    <button
+                      onClick={() => handleModerateListing(listing, 'remove')}
+                      disabled={busyId === listing.id}
+                      className="btn-primary text-xs px-3 py-1 disabled:opacity-50"
+                    >
+                      Remove
+                    </button>
+                  )}
+                  <button
+                    onClick={() => setHistoryListing(listing)}
+                    className="btn-secondary text-xs px-3 py-1 flex items-center"
+                  >
+                    <History className="w-3 h-3 mr-1" />
+                    History
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {users.map((member) => (
+              <div key={member.id} className="card-dark p-4 flex items-center justify-between">
+                <div className="min-w-0">
+                  <h3 className="font-medium text-silver-light truncate">
+                    {member.username}
+                    {member.role && member.role !== 'user' && (
+                      <span className="ml-2 text-xs text-silver/60 capitalize">({member.role})</span>
+                    )}
+                  </h3>
+                  <p className="text-xs text-silver/60 truncate">{member.email}</p>
+                  <p className="text-xs text-silver/60">
+                    Given {member.itemsGiven || 0} · Taken {member.itemsTaken || 0}
+                  </p>
+                </div>
+                {isAdmin && member.id !== user?.uid && (
+                  <button
+                    onClick={() => handleToggleSuspended(member)}
+                    disabled={busyId === member.id}
+                    className={`${member.suspended ? 'btn-secondary' : 'btn-primary'} text-xs px-3 py-1 ml-2 disabled:opacity-50`}
+                  >
+                    {member.suspended ? 'Unsuspend' : 'Suspend'}
+                  </button>
+                )}
+                {!isAdmin && member.suspended && (
+                  <span className="text-xs text-red-400 ml-2">Suspended</span>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Listing History Modal */}
+      {historyListing && (
+        <ListingHistoryModal listing={historyListing} onClose={() => setHistoryListing(null)} />
+      )}
+    </div>
+  );
+};
+
+export default Admin;
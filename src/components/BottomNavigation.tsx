@@ -1,6 +1,8 @@
-import React from 'react';
+import React, { useState, useEffect } from 'react';
 import { useNavigate, useLocation } from 'react-router-dom';
-import { Map, Plus, User } from 'lucide-react';
+import { Map, Plus, MessageCircle, User } from 'lucide-react';
+import { subscribeToUnreadCount } from '../services/firestore';
+import { useAuth } from '../contexts/AuthContext';
 
 interface BottomNavigationProps {
   activeTab: string;
@@ -10,10 +12,19 @@ interface BottomNavigationProps {
 const BottomNavigation: React.FC<BottomNavigationProps> = ({ activeTab, setActiveTab }) => {
   const navigate = useNavigate();
   const location = useLocation();
+  const { user } = useAuth();
+  const [unreadCount, setUnreadCount] = useState(0);
+
+  // Live unread badge for the Messages tab
+  useEffect(() => {
+    if (!user) return;
+    return subscribeToUnreadCount(user.uid, setUnreadCount);
+  }, [user]);
 
   const tabs = [
     { id: 'map', label: 'Map', icon: Map, path: '/map' },
     { id: 'add', label: 'Add', icon: Plus, path: '/add' },
+    { id: 'messages', label: 'Messages', icon: MessageCircle, path: '/messages' },
     { id: 'profile', label: 'Profile', icon: User, path: '/profile' },
   ];
 
@@ -24,7 +35,7 @@ const BottomNavigation: React.FC<BottomNavigationProps> = ({ activeTab, setActiv
 
   const getCurrentTab = () => {
     const currentPath = location.pathname;
-    return tabs.find(tab => tab.path === currentPath)?.id || 'profile';
+    return tabs.find(tab => currentPath === tab.path || currentPath.startsWith(`${tab.path}/`))?.id || 'profile';
   };
 
   const currentTab = getCurrentTab();
@@ -46,9 +57,14 @@ const BottomNavigation: React.FC<BottomNavigationProps> = ({ activeTab, setActiv
                   : 'text-silver/60 hover:text-silver'
               }`}
             >
-              <div className={`p-2 rounded-full transition-all duration-200 ${
+              <div className={`relative p-2 rounded-full transition-all duration-200 ${
                 isActive ? 'bg-dark-blue border border-silver/30' : ''
               }`}>
+                {tab.id === 'messages' && unreadCount > 0 && (
+                  <span className="absolute -top-1 -right-1 min-w-[1.25rem] h-5 px-1 rounded-full bg-silver text-deep-blue text-xs font-bold flex items-center justify-center">
+                    {unreadCount > 9 ? '9+' : unreadCount}
+                  </span>
+                )}
                 <Icon className={`w-6 h-6 ${
                   tab.id === 'add' && isActive ? 'scale-110' : ''
                 }`} />
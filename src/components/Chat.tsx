@@ -0,0 +1,190 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { ArrowLeft, Send, Loader } from 'lucide-react';
+import { Timestamp } from 'firebase/firestore';
+import {
+  getConversation,
+  subscribeToMessages,
+  sendMessage,
+  markConversationRead,
+  Conversation,
+  Message
+} from '../services/firestore';
+import { useAuth } from '../contexts/AuthContext';
+
+const PAGE_SIZE = 30;
+
+const Chat: React.FC = () => {
+  const { conversationId } = useParams<{ conversationId: string }>();
+  const navigate = useNavigate();
+  const { user } = useAuth();
+  const [conversation, setConversation] = useState<Conversation | null>(null);
+  const [messages, setMessages] = useState<Message[]>([]);
+  const [pages, setPages] = useState(1);
+  const [hasMore, setHasMore] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [text, setText] = useState('');
+  const [sending, setSending] = useState(false);
+  const bottomRef = useRef<HTMLDivElement>(null);
+  const lastMessageIdRef = useRef<string | undefined>(undefined);
+
+  useEffect(() => {
+    if (!conversationId) return;
+
+    getConversation(conversationId)
+      .then(setConversation)
+      .catch(error => console.error('Error loading conversation:', error))
+      .finally(() => setLoading(false));
+  }, [conversationId]);
+
+  // "Load older" widens the live window, like comments
+  useEffect(() => {
+    if (!conversationId) return;
+
+    const unsubscribe = subscribeToMessages(conversationId, (page) => {
+      setMessages(page.messages);
+      setHasMore(page.hasMore);
+    }, PAGE_SIZE * pages);
+
+    return unsubscribe;
+  }, [conversationId, pages]);
+
+  // Clear our unread count and jump to the newest message whenever one arrives
+  useEffect(() => {
+    if (!conversationId || !user) return;
+
+    const lastMessage = messages[messages.length - 1];
+    if (lastMessage?.id === lastMessageIdRef.current) return;
+    lastMessageIdRef.current = lastMessage?.id;
+
+    markConversationRead(conversationId, user.uid)
+      .catch(error => console.warn('Failed to mark conversation read:', error));
+    bottomRef.current?.scrollIntoView({ behavior: 'smooth' });
+  }, [conversationId, user, messages]);
+
+  const handleSend = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user || !conversationId || !text.trim()) return;
+
+    setSending(true);
+    try {
+      await sendMessage(conversationId, user.uid, user.username, text);
+      setText('');
+    } catch (error) {
+      console.error('Error sending message:', error);
+      alert(error instanceof Error ? error.message : 'Failed to send message. Please try again.');
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const formatTime = (createdAt?: Timestamp) => {
+    if (!createdAt) return '';
+    return createdAt.toDate().toLocaleString([], {
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit'
+    });
+  };
+
+  if (!user) return null;
+
+  const otherId = conversation?.participants.find(id => id !== user.uid) || '';
+
+  return (
+    <div className="min-h-screen bg-deep-blue flex flex-col">
+      {/* Header */}
+      <div className="card-dark border-b border-silver/30">
+        <div className="p-4">
+          <div className="flex items-center space-x-3">
+            <button
+              onClick={() => navigate('/messages')}
+              className="btn-secondary p-2"
+            >
+              <ArrowLeft className="w-5 h-5" />
+            </button>
+            <div className="min-w-0">
+              <h1 className="text-xl font-bold text-silver-light truncate">
+                {conversation?.participantNames?.[otherId] || 'Chat'}
+              </h1>
+              {conversation && (
+                <p className="text-xs text-silver/60 truncate">{conversation.listingTitle}</p>
+              )}
+            </div>
+          </div>
+        </div>
+      </div>
+
+      <div className="flex-1 p-4 space-y-3">
+        {loading ? (
+          <div className="flex items-center justify-center py-8 text-silver">
+            <Loader className="w-5 h-5 animate-spin mr-2" />
+            Loading chat...
+          </div>
+        ) : !conversation ? (
+          <p className="text-center text-silver py-8">Conversation not found</p>
+        ) : (
+          <>
+            {hasMore && (
+              <button
+                onClick={() => setPages(prev => prev + 1)}
+                className="btn-secondary w-full text-sm"
+              >
+                Load older messages
+              </button>
+            )}
+
+            {messages.length === 0 && (
+              <p className="text-center text-sm text-silver/60 py-8">
+                Say hi - ask if it's still there or when you can pick it up
+              </p>
+            )}
+
+            {messages.map((message) => {
+              const isMine = message.senderId === user.uid;
+
+              return (
+                <div key={message.id} className={`flex ${isMine ? 'justify-end' : 'justify-start'}`}>
+                  <div className={`max-w-[80%] rounded-lg p-3 border ${
+                    isMine
+                      ? 'bg-dark-blue-light border-silver/50 text-silver-light'
+                      : 'bg-dark-blue border-silver/20 text-silver'
+                  }`}>
+                    <p className="text-sm whitespace-pre-wrap break-words">{message.text}</p>
+                    <p className="text-xs text-silver/60 mt-1 text-right">{formatTime(message.createdAt)}</p>
+                  </div>
+                </div>
+              );
+            })}
+            <div ref={bottomRef} />
+          </>
+        )}
+      </div>
+
+      {conversation && (
+        <form onSubmit={handleSend} className="sticky bottom-20 card-dark border-t border-silver/30 p-3 flex space-x-2">
+          <input
+            type="text"
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+            maxLength={1000}
+            placeholder="Can you hold it until 6?"
+            className="input-dark flex-1 px-3 py-2 rounded-lg text-sm"
+            disabled={sending}
+          />
+          <button
+            type="submit"
+            disabled={sending || !text.trim()}
+            className="btn-primary p-2 disabled:opacity-50"
+            title="Send message"
+          >
+            {sending ? <Loader className="w-4 h-4 animate-spin" /> : <Send className="w-4 h-4" />}
+          </button>
+        </form>
+      )}
+    </div>
+  );
+};
+
+export default Chat;
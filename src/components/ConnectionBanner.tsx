@@ -0,0 +1,52 @@
+import React, { useState, useEffect } from 'react';
+import { CloudOff, RefreshCw, UploadCloud } from 'lucide-react';
+import { subscribeToConnectionStatus, ConnectionStatus } from '../services/firestore';
+
+// ✅ NEW: Tells the user whether they're looking at live or cached data
+const formatSyncTime = (lastSyncAt: number | null) => {
+  if (!lastSyncAt) return 'an unknown time';
+
+  const syncedAt = new Date(lastSyncAt);
+  const time = syncedAt.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+  return syncedAt.toDateString() === new Date().toDateString()
+    ? time
+    : `${syncedAt.toLocaleDateString([], { month: 'short', day: 'numeric' })} ${time}`;
+};
+
+const ConnectionBanner: React.FC = () => {
+  const [status, setStatus] = useState<ConnectionStatus | null>(null);
+
+  useEffect(() => subscribeToConnectionStatus(setStatus), []);
+
+  if (!status || (status.state === 'connected' && status.pendingWrites === 0)) {
+    return null;
+  }
+
+  const pending = status.pendingWrites > 0
+    ? ` ${status.pendingWrites} change${status.pendingWrites === 1 ? '' : 's'} waiting to sync.`
+    : '';
+
+  if (status.state === 'connected') {
+    return (
+      <div className="bg-blue-500/20 border-b border-blue-500/30 text-blue-400 text-sm flex items-center justify-center gap-2 p-2">
+        <UploadCloud size={16} />
+        <span>Syncing {status.pendingWrites} change{status.pendingWrites === 1 ? '' : 's'}...</span>
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-yellow-500/20 border-b border-yellow-500/30 text-yellow-400 text-sm flex items-center justify-center gap-2 p-2">
+      {status.state === 'reconnecting' ? (
+        <RefreshCw size={16} className="animate-spin shrink-0" />
+      ) : (
+        <CloudOff size={16} className="shrink-0" />
+      )}
+      <span>
+        {status.state === 'reconnecting' ? 'Reconnecting.' : "You're offline."} Showing data as of {formatSyncTime(status.lastSyncAt)}.{pending}
+      </span>
+    </div>
+  );
+};
+
+export default ConnectionBanner;
@@ -0,0 +1,239 @@
+import React, { useState, useEffect } from 'react';
+import { MessageCircle, Send, Edit, Trash2, Ban, Loader } from 'lucide-react';
+import { Timestamp } from 'firebase/firestore';
+import {
+  subscribeToComments,
+  addCommentToListing,
+  updateComment,
+  deleteComment,
+  Comment
+} from '../services/firestore';
+import { useAuth } from '../contexts/AuthContext';
+
+const PAGE_SIZE = 20;
+
+interface ListingCommentsProps {
+  listingId: string;
+  listingOwnerId: string;
+}
+
+const ListingComments: React.FC<ListingCommentsProps> = ({ listingId, listingOwnerId }) => {
+  const { user, blockUser } = useAuth();
+  const [comments, setComments] = useState<Comment[]>([]);
+  const [pages, setPages] = useState(1);
+  const [hasMore, setHasMore] = useState(false);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [text, setText] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editText, setEditText] = useState('');
+
+  // "Load older" widens the live window so edits and deletes stay in sync on every page
+  useEffect(() => {
+    const unsubscribe = subscribeToComments(listingId, (page) => {
+      setComments(page.comments);
+      setHasMore(page.hasMore);
+      setLoadingMore(false);
+    }, PAGE_SIZE * pages);
+
+    return unsubscribe;
+  }, [listingId, pages]);
+
+  const handleLoadMore = () => {
+    if (loadingMore) return;
+    setLoadingMore(true);
+    setPages(prev => prev + 1);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user || !text.trim()) return;
+
+    setSubmitting(true);
+    try {
+      await addCommentToListing(listingId, user.uid, user.username, text, user.avatar);
+      setText('');
+    } catch (error) {
+      console.error('Error adding comment:', error);
+      alert(error instanceof Error ? error.message : 'Failed to add comment. Please try again.');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleSaveEdit = async (commentId: string) => {
+    try {
+      await updateComment(listingId, commentId, editText);
+      setEditingId(null);
+    } catch (error) {
+      console.error('Error updating comment:', error);
+      alert(error instanceof Error ? error.message : 'Failed to update comment. Please try again.');
+    }
+  };
+
+  const handleDelete = async (commentId: string) => {
+    if (!confirm('Delete this comment?')) return;
+
+    try {
+      await deleteComment(listingId, commentId);
+    } catch (error) {
+      console.error('Error deleting comment:', error);
+      alert('Failed to delete comment. Please try again.');
+    }
+  };
+
+  const handleBlock = async (comment: Comment) => {
+    if (!confirm(`Block ${comment.username}? You won't see their listings or comments.`)) return;
+
+    try {
+      await blockUser({ id: comment.userId, username: comment.username });
+    } catch (error) {
+      console.error('Error blocking user:', error);
+      alert('Failed to block user. Please try again.');
+    }
+  };
+
+  const getTimeAgo = (createdAt?: Timestamp) => {
+    if (!createdAt) return 'Just now';
+
+    const diffMs = Date.now() - createdAt.toDate().getTime();
+    const diffMinutes = Math.floor(diffMs / (1000 * 60));
+    const diffHours = Math.floor(diffMinutes / 60);
+    const diffDays = Math.floor(diffHours / 24);
+
+    if (diffDays > 0) return `${diffDays}d ago`;
+    if (diffHours > 0) return `${diffHours}h ago`;
+    if (diffMinutes > 0) return `${diffMinutes}m ago`;
+    return 'Just now';
+  };
+
+  // The live subscription was opened before any new block, so filter here too
+  const visibleComments = comments.filter(comment => !user?.blockedUsers?.includes(comment.userId));
+
+  return (
+    <div className="border-t border-silver/30 pt-4 mb-4">
+      <h4 className="font-medium text-silver-light mb-3 flex items-center">
+        <MessageCircle className="w-4 h-4 mr-2" />
+        Comments
+      </h4>
+
+      {user && (
+        <form onSubmit={handleSubmit} className="flex space-x-2 mb-3">
+          <input
+            type="text"
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+            maxLength={500}
+            placeholder="Is it still there?"
+            className="input-dark flex-1 px-3 py-2 rounded-lg text-sm"
+            disabled={submitting}
+          />
+          <button
+            type="submit"
+            disabled={submitting || !text.trim()}
+            className="btn-secondary p-2 disabled:opacity-50"
+            title="Post comment"
+          >
+            {submitting ? <Loader className="w-4 h-4 animate-spin" /> : <Send className="w-4 h-4" />}
+          </button>
+        </form>
+      )}
+
+      {visibleComments.length === 0 ? (
+        <p className="text-sm text-silver/60">No comments yet</p>
+      ) : (
+        <div className="space-y-3">
+          {visibleComments.map((comment) => {
+            const isAuthor = user?.uid === comment.userId;
+            const canDelete = isAuthor || user?.uid === listingOwnerId;
+
+            return (
+              <div key={comment.id} className="bg-dark-blue rounded-lg p-3 border border-silver/20">
+                <div className="flex items-center justify-between mb-1">
+                  <span className="text-sm font-medium text-silver-light">{comment.username}</span>
+                  <div className="flex items-center space-x-2 text-xs text-silver/60">
+                    <span>
+                      {getTimeAgo(comment.createdAt)}
+                      {comment.editedAt && ' · edited'}
+                    </span>
+                    {isAuthor && editingId !== comment.id && (
+                      <button
+                        onClick={() => {
+                          setEditingId(comment.id!);
+                          setEditText(comment.text);
+                        }}
+                        className="hover:text-silver"
+                        title="Edit comment"
+                      >
+                        <Edit className="w-3 h-3" />
+                      </button>
+                    )}
+                    {canDelete && (
+                      <button
+                        onClick={() => handleDelete(comment.id!)}
+                        className="text-red-400 hover:text-red-300"
+                        title="Delete comment"
+                      >
+                        <Trash2 className="w-3 h-3" />
+                      </button>
+                    )}
+                    {user && !isAuthor && (
+                      <button
+                        onClick={() => handleBlock(comment)}
+                        className="hover:text-red-400"
+                        title={`Block ${comment.username}`}
+                      >
+                        <Ban className="w-3 h-3" />
+                      </button>
+                    )}
+                  </div>
+                </div>
+
+                {editingId === comment.id ? (
+                  <div className="space-y-2">
+                    <input
+                      type="text"
+                      value={editText}
+                      onChange={(e) => setEditText(e.target.value)}
+                      maxLength={500}
+                      className="input-dark w-full px-3 py-2 rounded-lg text-sm"
+                    />
+                    <div className="flex space-x-2">
+                      <button
+                        onClick={() => handleSaveEdit(comment.id!)}
+                        disabled={!editText.trim()}
+                        className="btn-primary text-xs px-3 py-1 disabled:opacity-50"
+                      >
+                        Save
+                      </button>
+                      <button
+                        onClick={() => setEditingId(null)}
+                        className="btn-secondary text-xs px-3 py-1"
+                      >
+                        Cancel
+                      </button>
+                    </div>
+                  </div>
+                ) : (
+                  <p className="text-sm text-silver">{comment.text}</p>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {hasMore && (
+        <button
+          onClick={handleLoadMore}
+          disabled={loadingMore}
+          className="btn-secondary w-full mt-3 text-sm disabled:opacity-50"
+        >
+          {loadingMore ? 'Loading...' : 'Load older comments'}
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default ListingComments;
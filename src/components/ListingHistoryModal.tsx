@@ -0,0 +1,74 @@
+import React, { useState, useEffect } from 'react';
+import { Loader } from 'lucide-react';
+import { Timestamp } from 'firebase/firestore';
+import { getListingHistory, BoxListing, ListingHistoryEntry } from '../services/firestore';
+
+interface ListingHistoryModalProps {
+  listing: BoxListing;
+  onClose: () => void;
+}
+
+// ✅ NEW: Audit trail of a listing, shared by the admin console and the owner's Profile
+const ListingHistoryModal: React.FC<ListingHistoryModalProps> = ({ listing, onClose }) => {
+  const [history, setHistory] = useState<ListingHistoryEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+    setHistory([]);
+    setLoading(true);
+
+    getListingHistory(listing.id!, listing.userId)
+      .then(entries => {
+        if (!cancelled) setHistory(entries);
+      })
+      .catch(error => console.error('Error loading listing history:', error))
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [listing.id, listing.userId]);
+
+  const formatDate = (timestamp?: Timestamp) =>
+    timestamp?.toDate ? timestamp.toDate().toLocaleString() : '';
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-end justify-center z-50 p-4">
+      <div className="card-dark rounded-t-2xl w-full max-w-md max-h-96 overflow-y-auto">
+        <div className="p-4 border-b border-silver/30 flex items-center justify-between">
+          <h3 className="font-semibold text-silver-light truncate">{listing.title}</h3>
+          <button
+            onClick={onClose}
+            className="text-silver/60 hover:text-silver"
+          >
+            ✕
+          </button>
+        </div>
+        <div className="p-4">
+          {loading ? (
+            <div className="flex items-center justify-center py-4 text-silver">
+              <Loader className="w-5 h-5 animate-spin mr-2" />
+              Loading history...
+            </div>
+          ) : history.length === 0 ? (
+            <p className="text-sm text-silver/60">No history recorded</p>
+          ) : (
+            <ul className="space-y-2">
+              {history.map((entry, index) => (
+                <li key={index} className="text-sm">
+                  <p className="text-silver">{entry.label}</p>
+                  <p className="text-xs text-silver/60">{formatDate(entry.at)}</p>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ListingHistoryModal;
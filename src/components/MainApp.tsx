@@ -6,6 +6,11 @@ import Profile from './Profile';
 import AddListing from './AddListing';
 import Terms from './Terms';
 import Login from './Login';
+import Messages from './Messages';
+import Chat from './Chat';
+import Notifications from './Notifications';
+import Admin from './Admin';
+import OutboxBanner from './OutboxBanner';
 import { useAuth } from '../contexts/AuthContext';
 
 const MainApp: React.FC = () => {
@@ -19,11 +24,22 @@ const MainApp: React.FC = () => {
 
   return (
     <div className="min-h-screen bg-deep-blue">
+      {user.suspended && (
+        <div className="bg-red-500/20 border-b border-red-500/30 text-red-400 text-sm text-center p-2">
+          Your account is suspended. You can browse, but posting, commenting and messaging are disabled.
+        </div>
+      )}
+      <OutboxBanner />
       <div className="pb-20">
         <Routes>
           <Route path="/" element={<Navigate to="/profile" replace />} />
           <Route path="/map" element={<MapView />} />
           <Route path="/add" element={<AddListing />} />
+          <Route path="/listings/:listingId/edit" element={<AddListing />} />
+          <Route path="/messages" element={<Messages />} />
+          <Route path="/messages/:conversationId" element={<Chat />} />
+          <Route path="/notifications" element={<Notifications />} />
+          <Route path="/admin" element={<Admin />} />
           <Route path="/profile" element={<Profile />} />
           <Route path="/terms" element={<Terms />} />
         </Routes>
@@ -1,15 +1,41 @@
-import React, { useState, useEffect, useRef } from 'react';
-import { Search, Filter, MapPin, Star, Clock, User, Navigation, Loader, AlertCircle } from 'lucide-react';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import { Search, Filter, MapPin, Star, Clock, User, Navigation, Loader, AlertCircle, MessageCircle, Bell, BellPlus, Heart, Flag, Ban } from 'lucide-react';
+import { Link, useNavigate, useSearchParams } from 'react-router-dom';
 import { loadGoogleMapsScript, getDarkMapStyles, getCurrentLocation } from '../utils/googleMaps';
 import { 
   subscribeToListings, 
+  getListingsPage,
   searchListings, 
   getListingsByCategory, 
-  markListingAsFound,
+  subscribeToNearbyListings,
+  claimListing,
+  claimListingItem,
+  getRemainingItems,
+  confirmPickup,
+  declineClaim,
+  canConfirmPickup,
+  reserveListing,
+  releaseReservation,
+  getOrCreateConversation,
+  getListing,
+  saveSearch,
+  subscribeToUnreadNotificationCount,
+  subscribeToFavorites,
+  addFavorite,
+  removeFavorite,
+  reportListing,
+  REPORT_REASONS,
+  ReportReason,
+  isReservationActive,
   calculateDistance,
-  BoxListing 
+  BoxListing,
+  ListingItem,
+  ListingsCursor
 } from '../services/firestore';
+import { Timestamp } from 'firebase/firestore';
 import { useAuth } from '../contexts/AuthContext';
+import ListingComments from './ListingComments';
+import ConnectionBanner from './ConnectionBanner';
 
 declare global {
   interface Window {
@@ -18,7 +44,9 @@ declare global {
 }
 
 const MapView: React.FC = () => {
-  const { user } = useAuth();
+  const { user, blockUser } = useAuth();
+  const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
   const [listings, setListings] = useState<BoxListing[]>([]);
   const [filteredListings, setFilteredListings] = useState<BoxListing[]>([]);
   const [selectedListing, setSelectedListing] = useState<BoxListing | null>(null);
@@ -29,11 +57,29 @@ const MapView: React.FC = () => {
   const [mapsError, setMapsError] = useState<string | null>(null);
   const [loadingLocation, setLoadingLocation] = useState(false);
   const [showFilters, setShowFilters] = useState(false);
+  const [olderListings, setOlderListings] = useState<BoxListing[]>([]);
+  const [nearbyListings, setNearbyListings] = useState<BoxListing[]>([]);
+  const [feedCursor, setFeedCursor] = useState<ListingsCursor | null>(null);
+  const [hasMoreListings, setHasMoreListings] = useState(false);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [reserving, setReserving] = useState(false);
+  const [takingItemId, setTakingItemId] = useState<string | null>(null);
+  const [showSaveSearch, setShowSaveSearch] = useState(false);
+  const [saveSearchRadius, setSaveSearchRadius] = useState(2);
+  const [savingSearch, setSavingSearch] = useState(false);
+  const [unreadNotifications, setUnreadNotifications] = useState(0);
+  const [favoriteIds, setFavoriteIds] = useState<Set<string>>(new Set());
+  const [showReport, setShowReport] = useState(false);
+  const [reportReason, setReportReason] = useState<ReportReason>('prohibited');
+  const [reportDetails, setReportDetails] = useState('');
+  const [reporting, setReporting] = useState(false);
 
   const mapRef = useRef<HTMLDivElement>(null);
   const googleMapRef = useRef<any>(null);
   const markersRef = useRef<any[]>([]);
   const userMarkerRef = useRef<any>(null);
+  const liveListingsRef = useRef<BoxListing[]>([]);
+  const hasOlderPagesRef = useRef(false);
 
   const categories = [
     { id: 'all', label: 'All Categories', icon: '📦' },
@@ -89,19 +135,96 @@ const MapView: React.FC = () => {
     }
   }, [mapsLoaded, userLocation]);
 
-  // Subscribe to listings
+  // Subscribe to the live first page of listings
   useEffect(() => {
-    const unsubscribe = subscribeToListings((newListings) => {
+    liveListingsRef.current = [];
+    hasOlderPagesRef.current = false;
+    setOlderListings([]);
+
+    const unsubscribe = subscribeToListings((newListings, page) => {
+      const previousLive = liveListingsRef.current;
+      liveListingsRef.current = newListings;
       setListings(newListings);
-      setFilteredListings(newListings);
+
+      if (!hasOlderPagesRef.current) {
+        setFeedCursor(page.cursor);
+        setHasMoreListings(page.hasMore);
+        return;
+      }
+
+      // New boxes push the oldest live ones past the page boundary; keep them in the
+      // older pages instead of losing them between the live page and the first cursor
+      const liveIds = new Set(newListings.map(listing => listing.id));
+      const oldestLive = newListings[newListings.length - 1];
+      const pushedOut = previousLive.filter(listing =>
+        !liveIds.has(listing.id) &&
+        oldestLive &&
+        listing.createdAt?.toMillis?.() < oldestLive.createdAt?.toMillis?.()
+      );
+      if (pushedOut.length > 0) {
+        setOlderListings(prev => [...pushedOut, ...prev]);
+      }
     }, selectedCategory === 'all' ? undefined : selectedCategory);
 
     return unsubscribe;
   }, [selectedCategory]);
 
+  // ✅ NEW: Once we know where the user is, also follow boxes around them that are
+  // too old to be in the newest-first pages
+  useEffect(() => {
+    if (!userLocation) {
+      setNearbyListings([]);
+      return;
+    }
+
+    return subscribeToNearbyListings(userLocation.lat, userLocation.lng, setNearbyListings);
+  }, [userLocation]);
+
+  // Live first page, then live nearby boxes, then any pages loaded with "load more"
+  // The service drops blocked users too, but pages fetched before a block still hold theirs
+  const blockedUsers = user?.blockedUsers;
+  const feedListings = useMemo(() => {
+    const seenIds = new Set(listings.map(listing => listing.id));
+    const extra = [...nearbyListings, ...olderListings].filter(listing => {
+      if (seenIds.has(listing.id)) return false;
+      seenIds.add(listing.id);
+      return true;
+    });
+    return [...listings, ...extra]
+      .filter(listing => !blockedUsers?.includes(listing.userId));
+  }, [listings, olderListings, nearbyListings, blockedUsers]);
+
+  const loadMoreListings = async () => {
+    if (!feedCursor || !hasMoreListings || loadingMore) return;
+
+    setLoadingMore(true);
+    try {
+      const page = await getListingsPage(
+        feedCursor,
+        selectedCategory === 'all' ? undefined : selectedCategory
+      );
+      hasOlderPagesRef.current = true;
+      setOlderListings(prev => [...prev, ...page.listings]);
+      setFeedCursor(page.cursor);
+      setHasMoreListings(page.hasMore);
+    } catch (error) {
+      console.error('Error loading more listings:', error);
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
+  // Infinite scroll for the "Nearby Items" list
+  const handleListScroll = (e: React.UIEvent<HTMLDivElement>) => {
+    const { scrollTop, clientHeight, scrollHeight } = e.currentTarget;
+    if (scrollTop + clientHeight >= scrollHeight - 100) {
+      loadMoreListings();
+    }
+  };
+
   // Filter listings based on search and category
   useEffect(() => {
-    let filtered = listings;
+    let filtered = feedListings;
 
     if (searchTerm) {
       const searchLower = searchTerm.toLowerCase();
@@ -117,7 +240,45 @@ const MapView: React.FC = () => {
     }
 
     setFilteredListings(filtered);
-  }, [listings, searchTerm, selectedCategory]);
+  }, [feedListings, searchTerm, selectedCategory]);
+
+  // Unread badge for saved-search alerts
+  useEffect(() => {
+    if (!user) return;
+    return subscribeToUnreadNotificationCount(user.uid, setUnreadNotifications);
+  }, [user]);
+
+  // Watchlist ids for the heart toggles
+  useEffect(() => {
+    if (!user) return;
+    return subscribeToFavorites(user.uid, (favorites) => {
+      setFavoriteIds(new Set(favorites.map(favorite => favorite.listingId)));
+    });
+  }, [user]);
+
+  // Start with a fresh report form for each listing
+  useEffect(() => {
+    setShowReport(false);
+    setReportReason('prohibited');
+    setReportDetails('');
+  }, [selectedListing?.id]);
+
+  // Open a listing linked from a notification (/map?listing=<id>)
+  useEffect(() => {
+    const linkedListingId = searchParams.get('listing');
+    if (!linkedListingId) return;
+
+    getListing(linkedListingId)
+      .then(listing => {
+        if (listing) {
+          setSelectedListing(listing);
+        } else {
+          alert('That box is no longer available.');
+        }
+      })
+      .catch(error => console.error('Error loading linked listing:', error))
+      .finally(() => setSearchParams({}, { replace: true }));
+  }, [searchParams, setSearchParams]);
 
   // Update map markers when listings change
   useEffect(() => {
@@ -172,18 +333,20 @@ const MapView: React.FC = () => {
 
     // Add markers for filtered listings
     filteredListings.forEach(listing => {
+      // Reserved boxes get an amber hourglass pin so nobody else heads over
+      const reserved = isReservationActive(listing);
       const marker = new window.google.maps.Marker({
         position: {
           lat: listing.location.coordinates.latitude,
           lng: listing.location.coordinates.longitude,
         },
         map: googleMapRef.current,
-        title: listing.title,
+        title: reserved ? `${listing.title} (reserved)` : listing.title,
         icon: {
           url: 'data:image/svg+xml;charset=UTF-8,' + encodeURIComponent(`
             <svg width="32" height="32" viewBox="0 0 32 32" fill="none" xmlns="http://www.w3.org/2000/svg">
-              <circle cx="16" cy="16" r="14" fill="#C0C0C0" stroke="#0A0F2C" stroke-width="2"/>
-              <text x="16" y="20" text-anchor="middle" font-size="16" fill="#0A0F2C">📦</text>
+              <circle cx="16" cy="16" r="14" fill="${reserved ? '#F59E0B' : '#C0C0C0'}" stroke="#0A0F2C" stroke-width="2"/>
+              <text x="16" y="20" text-anchor="middle" font-size="16" fill="#0A0F2C">${reserved ? '⏳' : '📦'}</text>
             </svg>
           `),
           scaledSize: new window.google.maps.Size(32, 32),
@@ -201,7 +364,7 @@ const MapView: React.FC = () => {
 
   const handleSearch = async () => {
     if (!searchTerm.trim()) {
-      setFilteredListings(listings);
+      setFilteredListings(feedListings);
       return;
     }
 
@@ -217,7 +380,7 @@ const MapView: React.FC = () => {
     setSelectedCategory(categoryId);
     
     if (categoryId === 'all') {
-      setFilteredListings(listings);
+      setFilteredListings(feedListings);
     } else {
       try {
         const results = await getListingsByCategory(categoryId);
@@ -228,24 +391,218 @@ const MapView: React.FC = () => {
     }
   };
 
+  const handleToggleFavorite = async (listing: BoxListing) => {
+    if (!user) {
+      alert('Please sign in to save favorites');
+      return;
+    }
+
+    try {
+      if (favoriteIds.has(listing.id!)) {
+        await removeFavorite(user.uid, listing.id!);
+      } else {
+        await addFavorite(user.uid, listing);
+      }
+    } catch (error) {
+      console.error('Error updating favorites:', error);
+      alert('Failed to update favorites. Please try again.');
+    }
+  };
+
+  const handleReport = async (listing: BoxListing) => {
+    if (!user) return;
+
+    setReporting(true);
+    try {
+      await reportListing(listing, user.uid, reportReason, reportDetails);
+      setShowReport(false);
+      alert('Thanks for the report. Our moderators will take a look.');
+    } catch (error) {
+      console.error('Error reporting listing:', error);
+      alert(error instanceof Error ? error.message : 'Failed to send report. Please try again.');
+    } finally {
+      setReporting(false);
+    }
+  };
+
+  const handleBlock = async (listing: BoxListing) => {
+    if (!confirm(`Block ${listing.username}? You won't see their listings or comments.`)) return;
+
+    try {
+      await blockUser({ id: listing.userId, username: listing.username });
+      setSelectedListing(null);
+    } catch (error) {
+      console.error('Error blocking user:', error);
+      alert('Failed to block user. Please try again.');
+    }
+  };
+
+  const handleSaveSearch = async () => {
+    if (!user) return;
+
+    // Alert around the user's location, or wherever the map is looking
+    const mapCenter = googleMapRef.current?.getCenter();
+    const center = userLocation || (mapCenter && { lat: mapCenter.lat(), lng: mapCenter.lng() });
+    if (!center) {
+      alert('Enable location or wait for the map to load to save a search');
+      return;
+    }
+
+    setSavingSearch(true);
+    try {
+      await saveSearch(user.uid, {
+        term: searchTerm,
+        category: selectedCategory,
+        center,
+        radiusKm: saveSearchRadius,
+      });
+      setShowSaveSearch(false);
+      alert("Search saved! We'll let you know when a matching box is posted.");
+    } catch (error) {
+      console.error('Error saving search:', error);
+      alert(error instanceof Error ? error.message : 'Failed to save search. Please try again.');
+    } finally {
+      setSavingSearch(false);
+    }
+  };
+
   const handleMarkAsFound = async (listing: BoxListing) => {
     if (!user) {
       alert('Please sign in to mark items as found');
       return;
     }
 
-    if (confirm('Mark this item as found? This will remove it from the map.')) {
+    const confirmer = listing.isSpotted ? 'another user' : listing.username;
+    if (confirm(`Mark this item as found? It counts towards your stats once ${confirmer} confirms the pickup.`)) {
       try {
-        await markListingAsFound(listing.id!, user.uid);
+        await claimListing(listing.id!, user.uid, user.username);
         setSelectedListing(null);
-        alert('Item marked as found! Thanks for keeping the community updated.');
+        alert('Claim sent! Thanks for keeping the community updated.');
       } catch (error) {
         console.error('Error marking as found:', error);
-        alert('Failed to mark as found. Please try again.');
+        alert(error instanceof Error ? error.message : 'Failed to mark as found. Please try again.');
       }
     }
   };
 
+  // ✅ NEW: Take one item out of a multi-item box
+  const handleTakeItem = async (listing: BoxListing, item: ListingItem) => {
+    if (!user) {
+      alert('Please sign in to take items');
+      return;
+    }
+
+    if (!confirm(`Take the ${item.name}? Let others know it's gone from the box.`)) return;
+
+    setTakingItemId(item.id);
+    try {
+      await claimListingItem(listing.id!, item.id, user.uid, user.username);
+      const items = (listing.items || []).map(candidate => candidate.id === item.id
+        ? { ...candidate, taken: true, takenBy: user.uid, takenByName: user.username }
+        : candidate
+      );
+      if (items.every(candidate => candidate.taken)) {
+        setSelectedListing(null);
+        alert('That was the last item - the box is now marked as taken. Thanks!');
+      } else {
+        setSelectedListing({ ...listing, items });
+      }
+    } catch (error) {
+      console.error('Error taking item:', error);
+      alert(error instanceof Error ? error.message : 'Failed to take item. Please try again.');
+    } finally {
+      setTakingItemId(null);
+    }
+  };
+
+  const handleConfirmPickup = async (listing: BoxListing) => {
+    if (!user) return;
+
+    if (confirm(`Confirm that ${listing.claimedByName || 'they'} took this box?`)) {
+      try {
+        await confirmPickup(listing.id!, user.uid);
+        setSelectedListing(null);
+        alert('Pickup confirmed. Thanks for helping keep the map accurate!');
+      } catch (error) {
+        console.error('Error confirming pickup:', error);
+        alert(error instanceof Error ? error.message : 'Failed to confirm pickup. Please try again.');
+      }
+    }
+  };
+
+  const handleCancelClaim = async (listing: BoxListing) => {
+    if (!user) return;
+
+    try {
+      await declineClaim(listing.id!, user.uid);
+      setSelectedListing(null);
+    } catch (error) {
+      console.error('Error cancelling claim:', error);
+      alert(error instanceof Error ? error.message : 'Failed to cancel claim. Please try again.');
+    }
+  };
+
+  const handleReserve = async (listing: BoxListing) => {
+    if (!user) {
+      alert('Please sign in to reserve items');
+      return;
+    }
+
+    setReserving(true);
+    try {
+      const holdExpiry = await reserveListing(listing.id!, user.uid, user.username);
+      setSelectedListing({
+        ...listing,
+        status: 'reserved',
+        reservedBy: user.uid,
+        reservedByName: user.username,
+        reservationExpiresAt: Timestamp.fromDate(holdExpiry),
+      });
+      alert(`It's yours until ${holdExpiry.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}. Please release the hold if you change your mind.`);
+    } catch (error) {
+      console.error('Error reserving listing:', error);
+      alert(error instanceof Error ? error.message : 'Failed to reserve. Please try again.');
+    } finally {
+      setReserving(false);
+    }
+  };
+
+  const handleReleaseReservation = async (listing: BoxListing) => {
+    if (!user) return;
+
+    setReserving(true);
+    try {
+      await releaseReservation(listing.id!, user.uid);
+      setSelectedListing({
+        ...listing,
+        status: 'active',
+        reservedBy: undefined,
+        reservedByName: undefined,
+        reservationExpiresAt: undefined,
+      });
+    } catch (error) {
+      console.error('Error releasing reservation:', error);
+      alert(error instanceof Error ? error.message : 'Failed to release hold. Please try again.');
+    } finally {
+      setReserving(false);
+    }
+  };
+
+  const handleMessageGiver = async (listing: BoxListing) => {
+    if (!user) {
+      alert('Please sign in to send messages');
+      return;
+    }
+
+    try {
+      const conversationId = await getOrCreateConversation(listing, user.uid, user.username);
+      navigate(`/messages/${conversationId}`);
+    } catch (error) {
+      console.error('Error opening conversation:', error);
+      alert(error instanceof Error ? error.message : 'Failed to open chat. Please try again.');
+    }
+  };
+
   const getDistanceText = (listing: BoxListing) => {
     if (!userLocation) return '';
     
@@ -290,6 +647,7 @@ const MapView: React.FC = () => {
 
   return (
     <div className="min-h-screen bg-deep-blue">
+      <ConnectionBanner />
       {/* Header */}
       <div className="card-dark border-b border-silver/30">
         <div className="p-4">
@@ -318,6 +676,27 @@ const MapView: React.FC = () => {
               >
                 <Filter className="w-5 h-5" />
               </button>
+
+              <button
+                onClick={() => setShowSaveSearch(!showSaveSearch)}
+                className="btn-secondary p-2"
+                title="Save this search"
+              >
+                <BellPlus className="w-5 h-5" />
+              </button>
+
+              <Link
+                to="/notifications"
+                className="btn-secondary p-2 relative"
+                title="Notifications"
+              >
+                <Bell className="w-5 h-5" />
+                {unreadNotifications > 0 && (
+                  <span className="absolute -top-1 -right-1 min-w-[1.25rem] h-5 px-1 rounded-full bg-silver text-deep-blue text-xs font-bold flex items-center justify-center">
+                    {unreadNotifications > 9 ? '9+' : unreadNotifications}
+                  </span>
+                )}
+              </Link>
             </div>
           </div>
 
@@ -334,6 +713,40 @@ const MapView: React.FC = () => {
             />
           </div>
 
+          {/* Save Search */}
+          {showSaveSearch && (
+            <div className="bg-dark-blue border border-silver/30 rounded-lg p-3 mb-4 space-y-3">
+              <p className="text-sm text-silver">
+                Get notified about new{' '}
+                <span className="text-silver-light font-medium">
+                  {searchTerm.trim() ? `"${searchTerm.trim()}"` : 'boxes'}
+                </span>
+                {selectedCategory !== 'all' && (
+                  <> in <span className="text-silver-light font-medium capitalize">{selectedCategory}</span></>
+                )}
+                {' '}{userLocation ? 'near you' : 'around the map center'}
+              </p>
+              <div className="flex items-center space-x-2">
+                <select
+                  value={saveSearchRadius}
+                  onChange={(e) => setSaveSearchRadius(Number(e.target.value))}
+                  className="input-dark flex-1 px-3 py-2 rounded-lg text-sm"
+                >
+                  {[1, 2, 5, 10, 25].map(km => (
+                    <option key={km} value={km}>Within {km} km</option>
+                  ))}
+                </select>
+                <button
+                  onClick={handleSaveSearch}
+                  disabled={savingSearch}
+                  className="btn-primary text-sm px-4 py-2 disabled:opacity-50"
+                >
+                  {savingSearch ? 'Saving...' : 'Save'}
+                </button>
+              </div>
+            </div>
+          )}
+
           {/* Category Filters */}
           {showFilters && (
             <div className="grid grid-cols-2 gap-2 mb-4">
@@ -397,7 +810,7 @@ const MapView: React.FC = () => {
           Nearby Items ({filteredListings.length})
         </h2>
         
-        <div className="space-y-4 max-h-96 overflow-y-auto">
+        <div className="space-y-4 max-h-96 overflow-y-auto" onScroll={handleListScroll}>
           {filteredListings.length === 0 ? (
             <div className="text-center py-8">
               <div className="text-4xl mb-2">📦</div>
@@ -429,6 +842,21 @@ const MapView: React.FC = () => {
                               Spotted
                             </span>
                           )}
+                          {isReservationActive(listing) && (
+                            <span className="ml-2 px-2 py-1 bg-yellow-500/20 text-yellow-400 text-xs rounded-full border border-yellow-500/30">
+                              Reserved
+                            </span>
+                          )}
+                          {listing.status === 'claimed' && (
+                            <span className="ml-2 px-2 py-1 bg-blue-500/20 text-blue-400 text-xs rounded-full border border-blue-500/30">
+                              Pickup pending
+                            </span>
+                          )}
+                          {listing.items && listing.items.length > 0 && (
+                            <span className="ml-2 px-2 py-1 bg-silver/10 text-silver text-xs rounded-full border border-silver/30">
+                              {getRemainingItems(listing).length}/{listing.items.length} items left
+                            </span>
+                          )}
                         </h3>
                         <p className="text-sm text-silver/60 mt-1 line-clamp-2">
                           {listing.description}
@@ -450,9 +878,23 @@ const MapView: React.FC = () => {
                           )}
                         </div>
                       </div>
-                      <div className="flex items-center space-x-1 ml-2">
-                        <span className="text-lg">{getRatingEmoji(listing.rating)}</span>
-                        <span className="text-sm text-silver">{listing.rating.toFixed(1)}</span>
+                      <div className="flex flex-col items-end space-y-2 ml-2">
+                        <div className="flex items-center space-x-1">
+                          <span className="text-lg">{getRatingEmoji(listing.rating)}</span>
+                          <span className="text-sm text-silver">{listing.rating.toFixed(1)}</span>
+                        </div>
+                        {user && (
+                          <button
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              handleToggleFavorite(listing);
+                            }}
+                            className="text-silver/60 hover:text-red-400"
+                            title={favoriteIds.has(listing.id!) ? 'Remove from favorites' : 'Add to favorites'}
+                          >
+                            <Heart className={`w-5 h-5 ${favoriteIds.has(listing.id!) ? 'fill-red-400 text-red-400' : ''}`} />
+                          </button>
+                        )}
                       </div>
                     </div>
                   </div>
@@ -460,6 +902,23 @@ const MapView: React.FC = () => {
               </div>
             ))
           )}
+
+          {hasMoreListings && (
+            <button
+              onClick={loadMoreListings}
+              disabled={loadingMore}
+              className="btn-secondary w-full flex items-center justify-center disabled:opacity-50"
+            >
+              {loadingMore ? (
+                <>
+                  <Loader className="w-4 h-4 animate-spin mr-2" />
+                  Loading more...
+                </>
+              ) : (
+                'Load more'
+              )}
+            </button>
+          )}
         </div>
       </div>
 
@@ -471,12 +930,23 @@ const MapView: React.FC = () => {
               <h3 className="font-semibold text-silver-light">
                 {selectedListing.title}
               </h3>
-              <button
-                onClick={() => setSelectedListing(null)}
-                className="text-silver/60 hover:text-silver"
-              >
-                ✕
-              </button>
+              <div className="flex items-center space-x-3">
+                {user && (
+                  <button
+                    onClick={() => handleToggleFavorite(selectedListing)}
+                    className="text-silver/60 hover:text-red-400"
+                    title={favoriteIds.has(selectedListing.id!) ? 'Remove from favorites' : 'Add to favorites'}
+                  >
+                    <Heart className={`w-5 h-5 ${favoriteIds.has(selectedListing.id!) ? 'fill-red-400 text-red-400' : ''}`} />
+                  </button>
+                )}
+                <button
+                  onClick={() => setSelectedListing(null)}
+                  className="text-silver/60 hover:text-silver"
+                >
+                  ✕
+                </button>
+              </div>
             </div>
             <div className="p-4">
               {selectedListing.images.length > 0 && (
@@ -488,6 +958,47 @@ const MapView: React.FC = () => {
               )}
               
               <p className="text-silver mb-4">{selectedListing.description}</p>
+
+              {selectedListing.items && selectedListing.items.length > 0 && (
+                <div className="mb-4">
+                  <h4 className="text-sm font-medium text-silver-light mb-2">
+                    In the box ({getRemainingItems(selectedListing).length} of {selectedListing.items.length} left)
+                  </h4>
+                  <ul className="space-y-2">
+                    {selectedListing.items.map((item) => (
+                      <li key={item.id} className="flex items-center space-x-3 text-sm">
+                        {item.imageIndex !== undefined && selectedListing.images[item.imageIndex] && (
+                          <img
+                            src={selectedListing.images[item.imageIndex]}
+                            alt={item.name}
+                            className={`w-10 h-10 object-cover rounded ${item.taken ? 'opacity-50' : ''}`}
+                          />
+                        )}
+                        <div className="flex-1 min-w-0">
+                          <p className={item.taken ? 'text-silver/60 line-through truncate' : 'text-silver truncate'}>
+                            {item.name}
+                          </p>
+                          <p className="text-xs text-silver/60 capitalize">
+                            {item.taken
+                              ? `Taken by ${item.takenBy === user?.uid ? 'you' : item.takenByName || 'someone'}`
+                              : item.category}
+                          </p>
+                        </div>
+                        {!item.taken && user && selectedListing.userId !== user.uid &&
+                          (selectedListing.status === 'active' || selectedListing.status === 'reserved') && (
+                          <button
+                            onClick={() => handleTakeItem(selectedListing, item)}
+                            className="btn-secondary text-xs px-2 py-1 disabled:opacity-50"
+                            disabled={takingItemId !== null || (isReservationActive(selectedListing) && selectedListing.reservedBy !== user.uid)}
+                          >
+                            {takingItemId === item.id ? 'Taking...' : 'Take'}
+                          </button>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
               
               <div className="space-y-2 text-sm text-silver/60 mb-4">
                 <div className="flex items-center justify-between">
@@ -511,16 +1022,89 @@ const MapView: React.FC = () => {
                     <span className="text-silver">{getDistanceText(selectedListing)}</span>
                   </div>
                 )}
+                {isReservationActive(selectedListing) && (
+                  <div className="flex items-center justify-between">
+                    <span>On the way:</span>
+                    <span className="text-yellow-400">
+                      {selectedListing.reservedBy === user?.uid ? 'You' : selectedListing.reservedByName || 'Someone'}
+                      {' until '}
+                      {selectedListing.reservationExpiresAt?.toDate().toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                    </span>
+                  </div>
+                )}
+                {selectedListing.status === 'claimed' && (
+                  <div className="flex items-center justify-between">
+                    <span>Taken by:</span>
+                    <span className="text-blue-400">
+                      {selectedListing.claimedBy === user?.uid ? 'You' : selectedListing.claimedByName || 'Someone'}
+                      {' · awaiting confirmation'}
+                    </span>
+                  </div>
+                )}
               </div>
 
-              <div className="flex space-x-3">
+              {user && selectedListing.userId !== user.uid && (
                 <button
-                  onClick={() => handleMarkAsFound(selectedListing)}
-                  className="btn-primary flex-1"
-                  disabled={!user}
+                  onClick={() => handleMessageGiver(selectedListing)}
+                  className="btn-secondary w-full mb-3 flex items-center justify-center"
                 >
-                  Mark as Found
+                  <MessageCircle className="w-4 h-4 mr-2" />
+                  Message {selectedListing.isSpotted ? 'spotter' : 'giver'}
                 </button>
+              )}
+
+              <ListingComments
+                key={selectedListing.id}
+                listingId={selectedListing.id!}
+                listingOwnerId={selectedListing.userId}
+              />
+
+              {user && selectedListing.userId !== user.uid && selectedListing.status !== 'claimed' && (
+                isReservationActive(selectedListing) ? (
+                  selectedListing.reservedBy === user.uid && (
+                    <button
+                      onClick={() => handleReleaseReservation(selectedListing)}
+                      className="btn-secondary w-full mb-3 disabled:opacity-50"
+                      disabled={reserving}
+                    >
+                      {reserving ? 'Releasing...' : 'Release my hold'}
+                    </button>
+                  )
+                ) : (
+                  <button
+                    onClick={() => handleReserve(selectedListing)}
+                    className="btn-secondary w-full mb-3 disabled:opacity-50"
+                    disabled={reserving}
+                  >
+                    {reserving ? 'Reserving...' : "I'm on my way"}
+                  </button>
+                )
+              )}
+
+              <div className="flex space-x-3">
+                {selectedListing.items?.length ? null : selectedListing.status !== 'claimed' ? (
+                  <button
+                    onClick={() => handleMarkAsFound(selectedListing)}
+                    className="btn-primary flex-1"
+                    disabled={!user || user.uid === selectedListing.userId || (isReservationActive(selectedListing) && selectedListing.reservedBy !== user.uid)}
+                  >
+                    Mark as Found
+                  </button>
+                ) : user && canConfirmPickup(selectedListing, user.uid) ? (
+                  <button
+                    onClick={() => handleConfirmPickup(selectedListing)}
+                    className="btn-primary flex-1"
+                  >
+                    Confirm it's gone
+                  </button>
+                ) : user && selectedListing.claimedBy === user.uid ? (
+                  <button
+                    onClick={() => handleCancelClaim(selectedListing)}
+                    className="btn-secondary flex-1"
+                  >
+                    Cancel my claim
+                  </button>
+                ) : null}
                 <button
                   onClick={() => setSelectedListing(null)}
                   className="btn-secondary flex-1"
@@ -528,6 +1112,66 @@ const MapView: React.FC = () => {
                   Close
                 </button>
               </div>
+
+              {/* ✅ NEW: Report a listing that breaks the Terms */}
+              {user && selectedListing.userId !== user.uid && (
+                showReport ? (
+                  <div className="mt-4 p-3 bg-dark-blue border border-red-500/30 rounded-lg space-y-2">
+                    <p className="text-sm text-silver-light font-medium">What's wrong with this listing?</p>
+                    {REPORT_REASONS.map((reason) => (
+                      <label key={reason.id} className="flex items-center space-x-2 text-sm text-silver">
+                        <input
+                          type="radio"
+                          name="report-reason"
+                          checked={reportReason === reason.id}
+                          onChange={() => setReportReason(reason.id)}
+                        />
+                        <span>{reason.label}</span>
+                      </label>
+                    ))}
+                    <textarea
+                      value={reportDetails}
+                      onChange={(e) => setReportDetails(e.target.value)}
+                      maxLength={500}
+                      rows={2}
+                      placeholder="Anything else moderators should know? (optional)"
+                      className="input-dark w-full px-3 py-2 rounded-lg text-sm"
+                    />
+                    <div className="flex space-x-2">
+                      <button
+                        onClick={() => handleReport(selectedListing)}
+                        disabled={reporting}
+                        className="btn-primary text-xs px-3 py-1 disabled:opacity-50"
+                      >
+                        {reporting ? 'Sending...' : 'Send report'}
+                      </button>
+                      <button
+                        onClick={() => setShowReport(false)}
+                        className="btn-secondary text-xs px-3 py-1"
+                      >
+                        Cancel
+                      </button>
+                    </div>
+                  </div>
+                ) : (
+                  <button
+                    onClick={() => setShowReport(true)}
+                    className="mt-4 text-xs text-silver/60 hover:text-red-400 flex items-center mx-auto"
+                  >
+                    <Flag className="w-3 h-3 mr-1" />
+                    Report this listing
+                  </button>
+                )
+              )}
+              {user && selectedListing.userId !== user.uid && (
+                <button
+                  onClick={() => handleBlock(selectedListing)}
+                  className="mt-2 text-xs text-silver/60 hover:text-red-400 flex items-center mx-auto"
+                >
+                  <Ban className="w-3 h-3 mr-1" />
+                  Block {selectedListing.username}
+                </button>
+              )}
             </div>
           </div>
         </div>
@@ -0,0 +1,109 @@
+import React, { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { MessageCircle, Loader } from 'lucide-react';
+import { Timestamp } from 'firebase/firestore';
+import { subscribeToConversations, Conversation } from '../services/firestore';
+import { useAuth } from '../contexts/AuthContext';
+
+const Messages: React.FC = () => {
+  const { user } = useAuth();
+  const [conversations, setConversations] = useState<Conversation[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (!user) return;
+
+    const unsubscribe = subscribeToConversations(user.uid, (updated) => {
+      setConversations(updated);
+      setLoading(false);
+    });
+
+    return unsubscribe;
+  }, [user]);
+
+  const getTimeAgo = (timestamp?: Timestamp) => {
+    if (!timestamp) return '';
+
+    const diffMs = Date.now() - timestamp.toDate().getTime();
+    const diffMinutes = Math.floor(diffMs / (1000 * 60));
+    const diffHours = Math.floor(diffMinutes / 60);
+    const diffDays = Math.floor(diffHours / 24);
+
+    if (diffDays > 0) return `${diffDays}d ago`;
+    if (diffHours > 0) return `${diffHours}h ago`;
+    if (diffMinutes > 0) return `${diffMinutes}m ago`;
+    return 'Just now';
+  };
+
+  if (!user) return null;
+
+  return (
+    <div className="min-h-screen bg-deep-blue">
+      {/* Header */}
+      <div className="card-dark border-b border-silver/30">
+        <div className="p-4">
+          <h1 className="text-xl font-bold text-silver-light">Messages</h1>
+        </div>
+      </div>
+
+      <div className="p-4 space-y-3">
+        {loading ? (
+          <div className="flex items-center justify-center py-8 text-silver">
+            <Loader className="w-5 h-5 animate-spin mr-2" />
+            Loading conversations...
+          </div>
+        ) : conversations.length === 0 ? (
+          <div className="text-center py-8">
+            <MessageCircle className="w-10 h-10 text-silver/40 mx-auto mb-2" />
+            <p className="text-silver">No messages yet</p>
+            <p className="text-silver/60 text-sm mt-1">
+              Open a box on the map and tap "Message giver" to ask about it
+            </p>
+          </div>
+        ) : (
+          conversations.map((conversation) => {
+            const otherId = conversation.participants.find(id => id !== user.uid) || '';
+            const unread = conversation.unreadCounts?.[user.uid] || 0;
+
+            return (
+              <Link
+                key={conversation.id}
+                to={`/messages/${conversation.id}`}
+                className="card-dark p-4 flex items-center space-x-3 hover:shadow-silver-glow transition-all"
+              >
+                <img
+                  src={conversation.listingImage || 'https://images.pexels.com/photos/416978/pexels-photo-416978.jpeg?auto=compress&cs=tinysrgb&w=400'}
+                  alt={conversation.listingTitle}
+                  className="w-12 h-12 object-cover rounded-lg"
+                />
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center justify-between">
+                    <h3 className={`truncate ${unread > 0 ? 'font-semibold text-silver-light' : 'font-medium text-silver'}`}>
+                      {conversation.participantNames?.[otherId] || 'Unknown user'}
+                    </h3>
+                    <span className="text-xs text-silver/60 ml-2 flex-shrink-0">
+                      {getTimeAgo(conversation.lastMessageAt || conversation.createdAt)}
+                    </span>
+                  </div>
+                  <p className="text-xs text-silver/60 truncate">{conversation.listingTitle}</p>
+                  <p className={`text-sm truncate mt-1 ${unread > 0 ? 'text-silver-light' : 'text-silver/60'}`}>
+                    {conversation.lastMessage
+                      ? `${conversation.lastSenderId === user.uid ? 'You: ' : ''}${conversation.lastMessage}`
+                      : 'No messages yet'}
+                  </p>
+                </div>
+                {unread > 0 && (
+                  <span className="min-w-[1.5rem] h-6 px-2 rounded-full bg-silver text-deep-blue text-xs font-bold flex items-center justify-center">
+                    {unread}
+                  </span>
+                )}
+              </Link>
+            );
+          })
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Messages;
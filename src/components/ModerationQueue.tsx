@@ -0,0 +1,108 @@
+import React, { useState, useEffect } from 'react';
+import { Flag, Loader } from 'lucide-react';
+import {
+  subscribeToModerationQueue,
+  resolveReports,
+  REPORT_REASONS,
+  ReportedListing
+} from '../services/firestore';
+import { useAuth } from '../contexts/AuthContext';
+
+const REASON_LABELS = Object.fromEntries(REPORT_REASONS.map(reason => [reason.id, reason.label]));
+
+// Open reports grouped by listing. Only moderators can read reports (see firestore.rules).
+const ModerationQueue: React.FC = () => {
+  const { user } = useAuth();
+  const [queue, setQueue] = useState<ReportedListing[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [resolvingId, setResolvingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    const unsubscribe = subscribeToModerationQueue((updated) => {
+      setQueue(updated);
+      setLoading(false);
+    });
+
+    return unsubscribe;
+  }, []);
+
+  const handleResolve = async (listingId: string, action: 'remove' | 'dismiss') => {
+    if (!user) return;
+
+    const message = action === 'remove'
+      ? 'Remove this listing and resolve its reports?'
+      : 'Dismiss these reports? A hidden listing will go back on the map.';
+    if (!confirm(message)) return;
+
+    setResolvingId(listingId);
+    try {
+      await resolveReports(listingId, user.uid, action);
+    } catch (error) {
+      console.error('Error resolving reports:', error);
+      alert(error instanceof Error ? error.message : 'Failed to resolve reports. Please try again.');
+    } finally {
+      setResolvingId(null);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-8 text-silver">
+        <Loader className="w-5 h-5 animate-spin mr-2" />
+        Loading reports...
+      </div>
+    );
+  }
+
+  if (queue.length === 0) {
+    return (
+      <div className="text-center py-8">
+        <Flag className="w-10 h-10 text-silver/40 mx-auto mb-2" />
+        <p className="text-silver">No open reports</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      {queue.map((entry) => (
+        <div key={entry.listingId} className="card-dark p-4">
+          <div className="flex items-center justify-between mb-2">
+            <h3 className="font-medium text-silver-light truncate">{entry.listingTitle}</h3>
+            <span className="ml-2 px-2 py-1 bg-red-500/20 text-red-400 text-xs rounded-full border border-red-500/30">
+              {entry.reports.length} report{entry.reports.length > 1 ? 's' : ''}
+            </span>
+          </div>
+
+          <ul className="space-y-1 mb-3">
+            {entry.reports.map((report) => (
+              <li key={report.id} className="text-sm text-silver">
+                <span className="font-medium">{REASON_LABELS[report.reason] || report.reason}</span>
+                {report.details && <span className="text-silver/60"> — {report.details}</span>}
+              </li>
+            ))}
+          </ul>
+
+          <div className="flex space-x-2">
+            <button
+              onClick={() => handleResolve(entry.listingId, 'remove')}
+              disabled={resolvingId === entry.listingId}
+              className="btn-primary text-xs px-3 py-1 disabled:opacity-50"
+            >
+              Remove listing
+            </button>
+            <button
+              onClick={() => handleResolve(entry.listingId, 'dismiss')}
+              disabled={resolvingId === entry.listingId}
+              className="btn-secondary text-xs px-3 py-1 disabled:opacity-50"
+            >
+              Dismiss
+            </button>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default ModerationQueue;
@@ -0,0 +1,184 @@
+import React, { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { ArrowLeft, Bell, Search, Trash2, Loader } from 'lucide-react';
+import { Timestamp } from 'firebase/firestore';
+import {
+  subscribeToNotifications,
+  markNotificationRead,
+  markAllNotificationsRead,
+  getSavedSearches,
+  deleteSavedSearch,
+  AppNotification,
+  SavedSearch
+} from '../services/firestore';
+import { useAuth } from '../contexts/AuthContext';
+
+const Notifications: React.FC = () => {
+  const navigate = useNavigate();
+  const { user } = useAuth();
+  const [notifications, setNotifications] = useState<AppNotification[]>([]);
+  const [savedSearches, setSavedSearches] = useState<SavedSearch[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (!user) return;
+
+    const unsubscribe = subscribeToNotifications(user.uid, (updated) => {
+      setNotifications(updated);
+      setLoading(false);
+    });
+
+    getSavedSearches(user.uid)
+      .then(setSavedSearches)
+      .catch(error => console.error('Error loading saved searches:', error));
+
+    return unsubscribe;
+  }, [user]);
+
+  const handleOpen = async (notification: AppNotification) => {
+    if (!user) return;
+
+    if (!notification.read) {
+      markNotificationRead(user.uid, notification.id!)
+        .catch(error => console.warn('Failed to mark notification read:', error));
+    }
+
+    // Taken or expired favorites can't be opened on the map any more
+    if (notification.listingId && notification.type === 'saved-search-match') {
+      navigate(`/map?listing=${notification.listingId}`);
+    }
+  };
+
+  const handleDeleteSearch = async (searchId: string) => {
+    if (!user || !confirm('Stop alerts for this search?')) return;
+
+    try {
+      await deleteSavedSearch(user.uid, searchId);
+      setSavedSearches(prev => prev.filter(search => search.id !== searchId));
+    } catch (error) {
+      console.error('Error deleting saved search:', error);
+      alert('Failed to delete saved search. Please try again.');
+    }
+  };
+
+  const getTimeAgo = (createdAt?: Timestamp) => {
+    if (!createdAt) return 'Just now';
+
+    const diffMs = Date.now() - createdAt.toDate().getTime();
+    const diffMinutes = Math.floor(diffMs / (1000 * 60));
+    const diffHours = Math.floor(diffMinutes / 60);
+    const diffDays = Math.floor(diffHours / 24);
+
+    if (diffDays > 0) return `${diffDays}d ago`;
+    if (diffHours > 0) return `${diffHours}h ago`;
+    if (diffMinutes > 0) return `${diffMinutes}m ago`;
+    return 'Just now';
+  };
+
+  if (!user) return null;
+
+  const hasUnread = notifications.some(notification => !notification.read);
+
+  return (
+    <div className="min-h-screen bg-deep-blue">
+      {/* Header */}
+      <div className="card-dark border-b border-silver/30">
+        <div className="p-4">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center space-x-3">
+              <button
+                onClick={() => navigate(-1)}
+                className="btn-secondary p-2"
+              >
+                <ArrowLeft className="w-5 h-5" />
+              </button>
+              <h1 className="text-xl font-bold text-silver-light">Notifications</h1>
+            </div>
+            {hasUnread && (
+              <button
+                onClick={() => markAllNotificationsRead(user.uid)}
+                className="text-sm text-silver/60 hover:text-silver"
+              >
+                Mark all read
+              </button>
+            )}
+          </div>
+        </div>
+      </div>
+
+      <div className="p-4 space-y-6">
+        {/* Saved Searches */}
+        <div className="card-dark overflow-hidden">
+          <div className="p-4 border-b border-silver/30">
+            <h3 className="font-semibold text-silver-light flex items-center">
+              <Search className="w-5 h-5 mr-2" />
+              Saved Searches
+            </h3>
+          </div>
+          {savedSearches.length === 0 ? (
+            <p className="p-4 text-sm text-silver/60">
+              Save a search from the map to get alerted when a matching box is posted.
+            </p>
+          ) : (
+            <div className="divide-y divide-silver/30">
+              {savedSearches.map((search) => (
+                <div key={search.id} className="p-4 flex items-center justify-between">
+                  <div className="min-w-0">
+                    <p className="text-silver font-medium truncate">{search.name}</p>
+                    <p className="text-xs text-silver/60 capitalize">
+                      {search.category === 'all' ? 'All categories' : search.category} · within {search.radiusKm} km
+                    </p>
+                  </div>
+                  <button
+                    onClick={() => handleDeleteSearch(search.id!)}
+                    className="text-red-400 hover:text-red-300 p-1"
+                    title="Delete saved search"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {/* Alerts */}
+        <div className="space-y-3">
+          {loading ? (
+            <div className="flex items-center justify-center py-8 text-silver">
+              <Loader className="w-5 h-5 animate-spin mr-2" />
+              Loading notifications...
+            </div>
+          ) : notifications.length === 0 ? (
+            <div className="text-center py-8">
+              <Bell className="w-10 h-10 text-silver/40 mx-auto mb-2" />
+              <p className="text-silver">No notifications yet</p>
+            </div>
+          ) : (
+            notifications.map((notification) => (
+              <button
+                key={notification.id}
+                onClick={() => handleOpen(notification)}
+                className={`card-dark w-full text-left p-4 hover:shadow-silver-glow transition-all ${
+                  notification.read ? 'opacity-70' : 'border border-silver/50'
+                }`}
+              >
+                <div className="flex items-center justify-between">
+                  <p className={notification.read ? 'text-silver' : 'text-silver-light font-medium'}>
+                    {notification.title}
+                  </p>
+                  <span className="text-xs text-silver/60 ml-2 flex-shrink-0">
+                    {getTimeAgo(notification.createdAt)}
+                  </span>
+                </div>
+                <p className="text-sm text-silver/60 mt-1 truncate">{notification.body}</p>
+              </button>
+            ))
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default Notifications;
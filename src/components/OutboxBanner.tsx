@@ -0,0 +1,80 @@
+import React, { useState, useEffect } from 'react';
+import { AlertTriangle, RotateCw, X } from 'lucide-react';
+import {
+  subscribeToOutbox,
+  retryOutboxOperation,
+  discardOutboxOperation,
+  OutboxOperation
+} from '../services/firestore';
+import { useAuth } from '../contexts/AuthContext';
+
+// ✅ NEW: Shows outbox writes the server rejected. Pending ones are counted by ConnectionBanner.
+const OutboxBanner: React.FC = () => {
+  const { user } = useAuth();
+  const [operations, setOperations] = useState<OutboxOperation[]>([]);
+  const [retryingId, setRetryingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!user) return;
+    return subscribeToOutbox(user.uid, setOperations);
+  }, [user]);
+
+  const failed = operations.filter(op => op.status === 'failed');
+
+  if (failed.length === 0) {
+    return null;
+  }
+
+  const handleRetry = async (id: string) => {
+    setRetryingId(id);
+    try {
+      await retryOutboxOperation(id);
+    } catch (error) {
+      console.error('Error retrying outbox operation:', error);
+      alert(error instanceof Error ? error.message : 'Failed to retry. Please try again.');
+    } finally {
+      setRetryingId(null);
+    }
+  };
+
+  const handleDiscard = async (operation: OutboxOperation) => {
+    if (!confirm(`Discard "${operation.label}"? This change will be lost.`)) return;
+
+    try {
+      await discardOutboxOperation(operation.id);
+    } catch (error) {
+      console.error('Error discarding outbox operation:', error);
+      alert(error instanceof Error ? error.message : 'Failed to discard. Please try again.');
+    }
+  };
+
+  return (
+    <div className="border-b border-white/10 text-sm">
+      {failed.map(operation => (
+        <div key={operation.id} className="bg-red-500/20 text-red-400 flex items-center gap-2 p-2">
+          <AlertTriangle size={16} className="shrink-0" />
+          <span className="flex-1 truncate">
+            {operation.label} failed{operation.lastError ? `: ${operation.lastError}` : ''}
+          </span>
+          <button
+            onClick={() => handleRetry(operation.id)}
+            disabled={retryingId === operation.id}
+            className="p-1 hover:text-white transition-colors disabled:opacity-50"
+            title="Retry"
+          >
+            <RotateCw size={16} className={retryingId === operation.id ? 'animate-spin' : ''} />
+          </button>
+          <button
+            onClick={() => handleDiscard(operation)}
+            className="p-1 hover:text-white transition-colors"
+            title="Discard"
+          >
+            <X size={16} />
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default OutboxBanner;
@@ -1,19 +1,27 @@
 import React, { useState, useEffect } from 'react';
-import { User, Star, Gift, Package, Settings, LogOut, Edit, Camera, Bell, BellOff, Trash2, ChevronDown, ChevronUp, FileText } from 'lucide-react';
+import { User, Star, Gift, Package, Settings, LogOut, Edit, Camera, Bell, BellOff, Trash2, ChevronDown, ChevronUp, FileText, Heart, Shield, Ban, History, Download, UserX } from 'lucide-react';
 import { Link } from 'react-router-dom';
+import { Timestamp } from 'firebase/firestore';
 import { useAuth } from '../contexts/AuthContext';
-import { getUserListings, updateListingStatus, deleteListing, BoxListing } from '../services/firestore';
+import { getUserListings, getRemainingItems, updateListingStatus, deleteListing, restoreListing, purgeListing, getTrashPurgeDate, TRASH_RETENTION_DAYS, renewListing, isReservationActive, confirmPickup, declineClaim, subscribeToFavorites, removeFavorite, exportMyData, BoxListing, Favorite } from '../services/firestore';
 import ImageUpload from './ImageUpload';
+import ConnectionBanner from './ConnectionBanner';
+import ListingHistoryModal from './ListingHistoryModal';
+import UndoToast from './UndoToast';
 
 const Profile: React.FC = () => {
-  const { user, logout, updateProfile } = useAuth();
+  const { user, logout, deleteAccount, updateProfile, unblockUser } = useAuth();
   const [isEditing, setIsEditing] = useState(false);
   const [editData, setEditData] = useState({ username: '', bio: '' });
   const [notifications, setNotifications] = useState(true);
   const [userListings, setUserListings] = useState<BoxListing[]>([]);
   const [loadingListings, setLoadingListings] = useState(false);
-  const [activeTab, setActiveTab] = useState<'active' | 'expired'>('active');
+  const [activeTab, setActiveTab] = useState<'active' | 'expired' | 'trash'>('active');
   const [showDetails, setShowDetails] = useState(false);
+  const [favorites, setFavorites] = useState<Favorite[]>([]);
+  const [historyListing, setHistoryListing] = useState<BoxListing | null>(null);
+  const [accountBusy, setAccountBusy] = useState<'export' | 'delete' | null>(null);
+  const [undoListing, setUndoListing] = useState<BoxListing | null>(null);
 
   useEffect(() => {
     if (user) {
@@ -25,6 +33,12 @@ const Profile: React.FC = () => {
     }
   }, [user]);
 
+  // ✅ NEW: Live watchlist
+  useEffect(() => {
+    if (!user) return;
+    return subscribeToFavorites(user.uid, setFavorites);
+  }, [user]);
+
   const loadUserListings = async () => {
     if (!user) return;
     
@@ -99,15 +113,132 @@ const Profile: React.FC = () => {
     }
   };
 
-  const handleDeleteListing = async (listingId: string) => {
-    if (confirm('Are you sure you want to delete this listing? This action cannot be undone.')) {
+  const handleRenewListing = async (listingId: string) => {
+    if (!user) return;
+
+    try {
+      const expiresAt = await renewListing(listingId, user.uid);
+      await loadUserListings(); // Refresh listings
+      alert(`Thanks for checking! Your box stays up until ${expiresAt.toLocaleString()}.`);
+    } catch (error) {
+      console.error('Error renewing listing:', error);
+      alert(error instanceof Error ? error.message : 'Failed to extend listing. Please try again.');
+    }
+  };
+
+  const handleConfirmPickup = async (listingId: string) => {
+    if (!user) return;
+
+    try {
+      await confirmPickup(listingId, user.uid);
+      await loadUserListings(); // Refresh listings
+      alert('Pickup confirmed! Your stats will update shortly.');
+    } catch (error) {
+      console.error('Error confirming pickup:', error);
+      alert(error instanceof Error ? error.message : 'Failed to confirm pickup. Please try again.');
+    }
+  };
+
+  const handleDeclineClaim = async (listingId: string) => {
+    if (!user) return;
+
+    if (confirm('Decline this claim? The listing will go back on the map.')) {
       try {
-        await deleteListing(listingId);
+        await declineClaim(listingId, user.uid);
         await loadUserListings(); // Refresh listings
-        alert('Listing deleted successfully!');
       } catch (error) {
-        console.error('Error deleting listing:', error);
-        alert('Failed to delete listing. Please try again.');
+        console.error('Error declining claim:', error);
+        alert(error instanceof Error ? error.message : 'Failed to decline claim. Please try again.');
+      }
+    }
+  };
+
+  const handleRemoveFavorite = async (listingId: string) => {
+    if (!user) return;
+
+    try {
+      await removeFavorite(user.uid, listingId);
+    } catch (error) {
+      console.error('Error removing favorite:', error);
+      alert('Failed to remove favorite. Please try again.');
+    }
+  };
+
+  const handleUnblock = async (userId: string) => {
+    try {
+      await unblockUser(userId);
+    } catch (error) {
+      console.error('Error unblocking user:', error);
+      alert('Failed to unblock user. Please try again.');
+    }
+  };
+
+  // ✅ NEW: JSON archive of everything tied to the account
+  const handleExportData = async () => {
+    setAccountBusy('export');
+    try {
+      const data = await exportMyData();
+      const url = URL.createObjectURL(new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' }));
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `takemehomebox-data-${new Date().toISOString().slice(0, 10)}.json`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error('Error exporting data:', error);
+      alert(error instanceof Error ? error.message : 'Failed to download your data. Please try again.');
+    } finally {
+      setAccountBusy(null);
+    }
+  };
+
+  const handleDeleteAccount = async () => {
+    const answer = prompt(
+      'This permanently deletes your account, listings, ratings and photos. Comments and messages stay but no longer show your name.\n\nType DELETE to confirm.'
+    );
+    if (answer?.trim() !== 'DELETE') return;
+
+    setAccountBusy('delete');
+    try {
+      await deleteAccount();
+    } catch (error) {
+      console.error('Error deleting account:', error);
+      alert(error instanceof Error ? error.message : 'Failed to delete account. Please try again.');
+      setAccountBusy(null);
+    }
+  };
+
+  // ✅ UPDATED: Deleting moves the listing to the trash, with an Undo toast straight after
+  const handleDeleteListing = async (listing: BoxListing) => {
+    try {
+      await deleteListing(listing.id!);
+      await loadUserListings(); // Refresh listings
+      setUndoListing(listing);
+    } catch (error) {
+      console.error('Error deleting listing:', error);
+      alert(error instanceof Error ? error.message : 'Failed to delete listing. Please try again.');
+    }
+  };
+
+  const handleRestoreListing = async (listingId: string) => {
+    setUndoListing(null);
+    try {
+      await restoreListing(listingId);
+      await loadUserListings(); // Refresh listings
+    } catch (error) {
+      console.error('Error restoring listing:', error);
+      alert(error instanceof Error ? error.message : 'Failed to restore listing. Please try again.');
+    }
+  };
+
+  const handlePurgeListing = async (listing: BoxListing) => {
+    if (confirm(`Delete "${listing.title}" forever? Its photos, comments and ratings are removed too and this cannot be undone.`)) {
+      try {
+        await purgeListing(listing);
+        await loadUserListings(); // Refresh listings
+      } catch (error) {
+        console.error('Error purging listing:', error);
+        alert(error instanceof Error ? error.message : 'Failed to delete listing. Please try again.');
       }
     }
   };
@@ -193,6 +324,24 @@ const Profile: React.FC = () => {
     }
   };
 
+  // ✅ NEW: Time left before a listing auto-expires
+  const getTimeRemaining = (expiresAt?: Timestamp) => {
+    if (!expiresAt?.toMillis) return null;
+
+    const diffMs = expiresAt.toMillis() - Date.now();
+    if (diffMs <= 0) return 'Expired';
+
+    const diffHours = Math.floor(diffMs / (1000 * 60 * 60));
+    if (diffHours >= 24) {
+      const diffDays = Math.floor(diffHours / 24);
+      return `Expires in ${diffDays} day${diffDays > 1 ? 's' : ''}`;
+    }
+    if (diffHours > 0) {
+      return `Expires in ${diffHours} hour${diffHours > 1 ? 's' : ''}`;
+    }
+    return 'Expires soon';
+  };
+
   // ✅ NEW: Format date helper function
   const formatDate = (dateString: string) => {
     try {
@@ -226,13 +375,15 @@ const Profile: React.FC = () => {
 
   // ✅ UPDATED: Improved filtering logic as requested
   const filteredListings = userListings.filter(listing => {
-    if (activeTab === 'active') return listing.status === 'active';
+    if (activeTab === 'active') return ['active', 'reserved', 'claimed'].includes(listing.status);
     if (activeTab === 'expired') return listing.status === 'expired';
+    if (activeTab === 'trash') return listing.status === 'deleted';
     return false; // Fallback - should never reach here with current tabs
   });
 
   return (
     <div className="min-h-screen bg-deep-blue">
+      <ConnectionBanner />
       {/* Header */}
       <div className="card-dark border-b border-silver/30">
         <div className="p-4">
@@ -280,10 +431,14 @@ const Profile: React.FC = () => {
                 </h2>
               )}
               <div className="flex items-center space-x-2 mt-2">
-                <div className="flex items-center space-x-1">
-                  <span className="text-2xl">{ratingEmoji}</span>
-                  <span className="text-silver font-medium">{user.rating}</span>
-                </div>
+                {user.ratingCount ? (
+                  <div className="flex items-center space-x-1" title={`${user.ratingCount} ratings on your listings`}>
+                    <span className="text-2xl">{ratingEmoji}</span>
+                    <span className="text-silver font-medium">{user.rating.toFixed(1)}</span>
+                  </div>
+                ) : (
+                  <span className="text-sm text-silver/60">No ratings yet</span>
+                )}
                 <span className="text-silver/60">•</span>
                 <div className="flex items-center space-x-1">
                   <span className="text-lg">{rank.emoji}</span>
@@ -481,8 +636,9 @@ const Profile: React.FC = () => {
           {/* ✅ UPDATED: Listing Status Tabs - Removed 'taken' tab */}
           <div className="flex border-b border-silver/30">
             {[
-              { key: 'active', label: 'Active', count: userListings.filter(l => l.status === 'active').length },
+              { key: 'active', label: 'Active', count: userListings.filter(l => ['active', 'reserved', 'claimed'].includes(l.status)).length },
               { key: 'expired', label: 'Expired', count: userListings.filter(l => l.status === 'expired').length },
+              { key: 'trash', label: 'Trash', count: userListings.filter(l => l.status === 'deleted').length },
             ].map((tab) => (
               <button
                 key={tab.key}
@@ -509,8 +665,13 @@ const Profile: React.FC = () => {
               <div className="p-6 text-center">
                 <div className="text-4xl mb-2">📦</div>
                 <p className="text-silver text-sm">
-                  {activeTab === 'active' ? 'No active listings' : 'No expired listings'}
+                  {activeTab === 'active' ? 'No active listings' : activeTab === 'expired' ? 'No expired listings' : 'Trash is empty'}
                 </p>
+                {activeTab === 'trash' && (
+                  <p className="text-silver/60 text-xs mt-1">
+                    Deleted listings can be restored for {TRASH_RETENTION_DAYS} days
+                  </p>
+                )}
               </div>
             ) : (
               <div className="divide-y divide-silver/30">
@@ -532,6 +693,11 @@ const Profile: React.FC = () => {
                                   Spotted
                                 </span>
                               )}
+                              {isReservationActive(listing) && (
+                                <span className="ml-2 px-2 py-1 bg-yellow-500/20 text-yellow-400 text-xs rounded-full border border-yellow-500/30">
+                                  Reserved by {listing.reservedByName || 'someone'}
+                                </span>
+                              )}
                             </h4>
                             <p className="text-sm text-silver/60 mt-1">
                               {listing.description.length > 50 
@@ -542,29 +708,115 @@ const Profile: React.FC = () => {
                             <div className="flex items-center space-x-4 mt-2 text-xs text-silver/60">
                               <span>{getTimePosted(listing.createdAt)}</span>
                               <span>Rating: {listing.rating ? listing.rating.toFixed(1) : '0.0'}</span>
-                              <span>{listing.ratings.length} reviews</span>
+                              <span>{listing.ratingCount || 0} reviews</span>
+                              {listing.items && listing.items.length > 0 && (
+                                <span>{getRemainingItems(listing).length}/{listing.items.length} items left</span>
+                              )}
                             </div>
-                          </div>
-                          
-                          {/* Action buttons */}
-                          {activeTab === 'active' && (
-                            <div className="flex space-x-2 ml-2">
+                            {!listing.isSpotted && (
+                              <div className="flex items-center space-x-4 mt-1 text-xs text-silver/60">
+                                {activeTab === 'active' && getTimeRemaining(listing.expiresAt) && (
+                                  <span>{getTimeRemaining(listing.expiresAt)}</span>
+                                )}
+                                {(listing.renewCount || 0) > 0 && (
+                                  <span>Renewed {listing.renewCount}×</span>
+                                )}
+                              </div>
+                            )}
+                            {listing.status === 'claimed' && (
+                              <div className="mt-2 p-2 bg-blue-500/10 border border-blue-500/30 rounded-lg text-xs">
+                                <p className="text-blue-400">
+                                  {listing.claimedByName || 'Someone'} says they took this
+                                </p>
+                                {listing.isSpotted ? (
+                                  <p className="text-silver/60 mt-1">Waiting for another user to confirm</p>
+                                ) : (
+                                  <div className="flex space-x-2 mt-2">
+                                    <button
+                                      onClick={() => handleConfirmPickup(listing.id!)}
+                                      className="btn-primary text-xs px-2 py-1"
+                                    >
+                                      Confirm pickup
+                                    </button>
+                                    <button
+                                      onClick={() => handleDeclineClaim(listing.id!)}
+                                      className="btn-secondary text-xs px-2 py-1"
+                                    >
+                                      Decline
+                                    </button>
+                                  </div>
+                                )}
+                              </div>
+                            )}
+                            {activeTab === 'trash' && getTrashPurgeDate(listing) && (
+                              <p className="mt-2 text-xs text-red-400">
+                                Deleted forever on {getTrashPurgeDate(listing)!.toLocaleDateString()}
+                              </p>
+                            )}
+                            {!listing.isSpotted && listing.status !== 'claimed' && activeTab !== 'trash' && (
                               <button
-                                onClick={() => handleMarkAsTaken(listing.id!)}
-                                className="btn-secondary text-xs px-2 py-1"
-                                title="Mark as taken"
+                                onClick={() => handleRenewListing(listing.id!)}
+                                className="mt-2 text-xs text-silver hover:text-silver-light underline"
+                                title="Extend this listing by 48 hours"
                               >
-                                Taken
+                                Still out there — extend
                               </button>
-                              <button
-                                onClick={() => handleDeleteListing(listing.id!)}
-                                className="text-red-400 hover:text-red-300 p-1"
-                                title="Delete listing"
-                              >
-                                <Trash2 className="w-4 h-4" />
-                              </button>
-                            </div>
-                          )}
+                            )}
+                          </div>
+                          
+                          {/* Action buttons */}
+                          <div className="flex space-x-2 ml-2">
+                            <button
+                              onClick={() => setHistoryListing(listing)}
+                              className="text-silver/60 hover:text-silver p-1"
+                              title="Listing history"
+                            >
+                              <History className="w-4 h-4" />
+                            </button>
+                            {activeTab === 'active' && (
+                              <>
+                                <Link
+                                  to={`/listings/${listing.id}/edit`}
+                                  className="text-silver/60 hover:text-silver p-1"
+                                  title="Edit listing"
+                                >
+                                  <Edit className="w-4 h-4" />
+                                </Link>
+                                <button
+                                  onClick={() => handleMarkAsTaken(listing.id!)}
+                                  className="btn-secondary text-xs px-2 py-1"
+                                  title="Mark as taken"
+                                >
+                                  Taken
+                                </button>
+                                <button
+                                  onClick={() => handleDeleteListing(listing)}
+                                  className="text-red-400 hover:text-red-300 p-1"
+                                  title="Move to trash"
+                                >
+                                  <Trash2 className="w-4 h-4" />
+                                </button>
+                              </>
+                            )}
+                            {activeTab === 'trash' && (
+                              <>
+                                <button
+                                  onClick={() => handleRestoreListing(listing.id!)}
+                                  className="btn-secondary text-xs px-2 py-1"
+                                  title="Restore listing"
+                                >
+                                  Restore
+                                </button>
+                                <button
+                                  onClick={() => handlePurgeListing(listing)}
+                                  className="text-red-400 hover:text-red-300 p-1"
+                                  title="Delete forever"
+                                >
+                                  <Trash2 className="w-4 h-4" />
+                                </button>
+                              </>
+                            )}
+                          </div>
                         </div>
                       </div>
                     </div>
@@ -575,6 +827,61 @@ const Profile: React.FC = () => {
           </div>
         </div>
 
+        {/* ✅ NEW: Favorites Section */}
+        <div className="card-dark overflow-hidden">
+          <div className="p-4 border-b border-silver/30">
+            <h3 className="font-semibold text-silver-light flex items-center">
+              <Heart className="w-5 h-5 mr-2" />
+              Favorites
+            </h3>
+          </div>
+
+          {favorites.length === 0 ? (
+            <div className="p-6 text-center">
+              <p className="text-silver text-sm">No favorites yet</p>
+              <p className="text-silver/60 text-xs mt-1">Tap the heart on a box to keep an eye on it</p>
+            </div>
+          ) : (
+            <div className="max-h-96 overflow-y-auto divide-y divide-silver/30">
+              {favorites.map((favorite) => {
+                const available = !['taken', 'expired', 'deleted'].includes(favorite.listingStatus);
+
+                return (
+                  <div key={favorite.id} className="p-4 flex items-center space-x-3">
+                    <img
+                      src={favorite.listingImage || 'https://images.pexels.com/photos/416978/pexels-photo-416978.jpeg?auto=compress&cs=tinysrgb&w=400'}
+                      alt={favorite.listingTitle}
+                      className={`w-12 h-12 object-cover rounded-lg ${available ? '' : 'opacity-50'}`}
+                    />
+                    <div className="flex-1 min-w-0">
+                      {available ? (
+                        <Link
+                          to={`/map?listing=${favorite.listingId}`}
+                          className="font-medium text-silver-light truncate block hover:underline"
+                        >
+                          {favorite.listingTitle}
+                        </Link>
+                      ) : (
+                        <p className="font-medium text-silver/60 truncate">{favorite.listingTitle}</p>
+                      )}
+                      <p className="text-xs text-silver/60 capitalize">
+                        {available ? 'Still available' : favorite.listingStatus}
+                      </p>
+                    </div>
+                    <button
+                      onClick={() => handleRemoveFavorite(favorite.listingId)}
+                      className="text-red-400 hover:text-red-300 p-1"
+                      title="Remove from favorites"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </div>
+
         {/* Settings Section */}
         <div className="card-dark overflow-hidden">
           <div className="p-4 border-b border-silver/30">
@@ -650,6 +957,34 @@ const Profile: React.FC = () => {
               )}
             </div>
 
+            {/* ✅ NEW: Blocked users */}
+            {user.blockedUsers && user.blockedUsers.length > 0 && (
+              <div className="p-4">
+                <div className="flex items-center space-x-3 mb-3">
+                  <Ban className="w-5 h-5 text-silver" />
+                  <div>
+                    <p className="text-silver font-medium">Blocked Users</p>
+                    <p className="text-sm text-silver/60">Hidden from your map and comments</p>
+                  </div>
+                </div>
+                <div className="space-y-2">
+                  {user.blockedUsers.map((blockedId) => (
+                    <div key={blockedId} className="flex items-center justify-between p-2 bg-dark-blue rounded-lg border border-silver/20">
+                      <span className="text-sm text-silver truncate">
+                        {user.blockedUserNames?.[blockedId] || blockedId}
+                      </span>
+                      <button
+                        onClick={() => handleUnblock(blockedId)}
+                        className="btn-secondary text-xs px-3 py-1 ml-2"
+                      >
+                        Unblock
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
             {/* ✅ NEW: Terms & Conditions Link */}
             <div className="p-4">
               <Link
@@ -664,6 +999,47 @@ const Profile: React.FC = () => {
               </Link>
             </div>
 
+            {/* ✅ NEW: Admin console for moderators and admins */}
+            {(user.role === 'moderator' || user.role === 'admin') && (
+              <div className="p-4">
+                <Link
+                  to="/admin"
+                  className="flex items-center space-x-3 hover:bg-dark-blue-light/50 transition-colors rounded-lg p-2 -m-2"
+                >
+                  <Shield className="w-5 h-5 text-silver" />
+                  <div>
+                    <p className="text-silver font-medium">Admin Console</p>
+                    <p className="text-sm text-silver/60">Reports, listings and users</p>
+                  </div>
+                </Link>
+              </div>
+            )}
+
+            {/* ✅ NEW: Account data */}
+            <button
+              onClick={handleExportData}
+              disabled={accountBusy !== null}
+              className="w-full p-4 flex items-center space-x-3 hover:bg-dark-blue-light/50 transition-colors text-left disabled:opacity-50"
+            >
+              <Download className="w-5 h-5 text-silver" />
+              <div>
+                <p className="text-silver font-medium">{accountBusy === 'export' ? 'Preparing your data...' : 'Download My Data'}</p>
+                <p className="text-sm text-silver/60">Everything tied to your account, as JSON</p>
+              </div>
+            </button>
+
+            <button
+              onClick={handleDeleteAccount}
+              disabled={accountBusy !== null}
+              className="w-full p-4 flex items-center space-x-3 hover:bg-red-500/10 transition-colors text-left text-red-400 disabled:opacity-50"
+            >
+              <UserX className="w-5 h-5" />
+              <div>
+                <p className="font-medium">{accountBusy === 'delete' ? 'Deleting account...' : 'Delete My Account'}</p>
+                <p className="text-sm text-red-400/70">Permanently remove your account and data</p>
+              </div>
+            </button>
+
             {/* Logout */}
             <button
               onClick={handleLogout}
@@ -675,6 +1051,18 @@ const Profile: React.FC = () => {
           </div>
         </div>
       </div>
+
+      {historyListing && (
+        <ListingHistoryModal listing={historyListing} onClose={() => setHistoryListing(null)} />
+      )}
+
+      {undoListing && (
+        <UndoToast
+          message={`"${undoListing.title}" moved to trash`}
+          onUndo={() => handleRestoreListing(undoListing.id!)}
+          onDismiss={() => setUndoListing(null)}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,46 @@
+import React, { useEffect, useRef } from 'react';
+import { Undo2, X } from 'lucide-react';
+
+interface UndoToastProps {
+  message: string;
+  onUndo: () => void;
+  onDismiss: () => void;
+  duration?: number;
+}
+
+// ✅ NEW: Short-lived "Undo" prompt pinned above the bottom navigation. Dismisses itself
+// after `duration` ms; the parent decides what undoing means.
+const UndoToast: React.FC<UndoToastProps> = ({ message, onUndo, onDismiss, duration = 8000 }) => {
+  // Parents re-render while the toast is up; don't restart the countdown each time
+  const dismissRef = useRef(onDismiss);
+  dismissRef.current = onDismiss;
+
+  useEffect(() => {
+    const timer = setTimeout(() => dismissRef.current(), duration);
+    return () => clearTimeout(timer);
+  }, [message, duration]);
+
+  return (
+    <div className="fixed bottom-20 left-1/2 -translate-x-1/2 z-50 w-[calc(100%-2rem)] max-w-md">
+      <div className="card-dark flex items-center gap-3 p-3 text-sm shadow-lg">
+        <span className="flex-1 text-silver-light truncate">{message}</span>
+        <button
+          onClick={onUndo}
+          className="flex items-center gap-1 font-medium text-silver-light hover:text-white transition-colors"
+        >
+          <Undo2 size={16} />
+          Undo
+        </button>
+        <button
+          onClick={onDismiss}
+          className="p-1 text-silver/60 hover:text-silver transition-colors"
+          title="Dismiss"
+        >
+          <X size={16} />
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default UndoToast;
@@ -9,20 +9,10 @@ import {
   User as FirebaseUser,
 } from 'firebase/auth';
 import { doc, setDoc, getDoc, updateDoc } from 'firebase/firestore';
+import { setBlockedUsers, deleteMyAccount, UserProfile } from '../services/firestore';
+import { userConverter } from '../services/converters';
 
-interface User {
-  id: string;
-  uid: string;
-  username: string;
-  email: string;
-  bio?: string;
-  rating: number;
-  itemsGiven: number;
-  itemsTaken: number;
-  avatar?: string;
-  createdAt: string;
-  lastActive: string;
-}
+type User = UserProfile;
 
 interface AuthContextType {
   user: User | null;
@@ -30,7 +20,10 @@ interface AuthContextType {
   login: (email: string, password: string) => Promise<void>;
   signup: (userData: Partial<User> & { password: string }) => Promise<void>;
   logout: () => Promise<void>;
+  deleteAccount: () => Promise<void>;
   updateProfile: (updates: Partial<User>) => Promise<void>;
+  blockUser: (target: { id: string; username: string }) => Promise<void>;
+  unblockUser: (userId: string) => Promise<void>;
 }
 
 const AuthContext = createContext<AuthContextType | null>(null);
@@ -47,6 +40,11 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
   const [user, setUser] = useState<User | null>(null);
   const [loading, setLoading] = useState(true);
 
+  // ✅ NEW: Keep the service-level feed filters in step with the block list
+  useEffect(() => {
+    setBlockedUsers(user?.blockedUsers || []);
+  }, [user?.blockedUsers]);
+
   // Check if Firebase is configured
   const isFirebaseConfigured = () => {
     return auth && db;
@@ -62,7 +60,9 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
       username: additionalData?.username || firebaseUser.displayName || firebaseUser.email!.split('@')[0],
       email: firebaseUser.email || '',
       bio: additionalData?.bio || '',
-      rating: 5.0,
+      // Rolled up from ratings on this user's listings by the onRatingWritten function
+      rating: 0,
+      ratingCount: 0,
       itemsGiven: 0,
       itemsTaken: 0,
       avatar: firebaseUser.photoURL || '',
@@ -108,9 +108,9 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
 
     if (isFirebaseConfigured()) {
       try {
-        const userDoc = await getDoc(doc(db, 'users', userId));
-        if (userDoc.exists()) {
-          const userData = userDoc.data() as User;
+        const userDoc = await getDoc(doc(db, 'users', userId).withConverter(userConverter));
+        const userData = userDoc.data();
+        if (userData) {
           
           // ✅ OPTIMIZED: Update last active in background, don't wait
           updateDoc(doc(db, 'users', userId), {
@@ -277,6 +277,22 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     }
   };
 
+  // ✅ NEW: Permanently delete the account server-side, then drop the local session
+  const deleteAccount = async () => {
+    if (!isFirebaseConfigured()) {
+      throw new Error('Firebase is not configured');
+    }
+
+    try {
+      await deleteMyAccount();
+    } catch (error) {
+      console.error('Delete account error:', error);
+      throw error instanceof Error ? error : new Error('Failed to delete account. Please try again.');
+    }
+
+    await logout();
+  };
+
   // ✅ OPTIMIZED: Faster profile updates with optimistic UI
   const updateProfile = async (updates: Partial<User>) => {
     if (user) {
@@ -297,8 +313,11 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
       
       if (isFirebaseConfigured()) {
         try {
-          // Update in Firestore in background
-          await updateDoc(doc(db, 'users', user.uid), updatedUser);
+          // Only write the edited fields so server-maintained stats (rating, item counts) aren't clobbered
+          await updateDoc(doc(db, 'users', user.uid), {
+            ...updates,
+            lastActive: updatedUser.lastActive,
+          });
         } catch (error) {
           console.error('Error updating profile in Firestore:', error);
           // Revert optimistic update on error
@@ -320,13 +339,39 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     }
   };
 
+  // ✅ NEW: Block list lives on the user document so rules can check it
+  const blockUser = async (target: { id: string; username: string }) => {
+    if (!user || target.id === user.uid) return;
+    if (user.blockedUsers?.includes(target.id)) return;
+
+    await updateProfile({
+      blockedUsers: [...(user.blockedUsers || []), target.id],
+      blockedUserNames: { ...(user.blockedUserNames || {}), [target.id]: target.username },
+    });
+  };
+
+  const unblockUser = async (userId: string) => {
+    if (!user) return;
+
+    const blockedUserNames = { ...(user.blockedUserNames || {}) };
+    delete blockedUserNames[userId];
+
+    await updateProfile({
+      blockedUsers: (user.blockedUsers || []).filter(id => id !== userId),
+      blockedUserNames,
+    });
+  };
+
   const value: AuthContextType = {
     user,
     loading,
     login,
     signup,
     logout,
+    deleteAccount,
     updateProfile,
+    blockUser,
+    unblockUser,
   };
 
   return (
@@ -2,15 +2,33 @@ import { initializeApp } from "firebase/app";
 import { getAuth, connectAuthEmulator } from "firebase/auth";
 import { getFirestore, connectFirestoreEmulator, enableNetwork, disableNetwork } from "firebase/firestore";
 import { getStorage, connectStorageEmulator } from "firebase/storage";
+import { getFunctions, connectFunctionsEmulator, Functions } from "firebase/functions";
 
-const firebaseConfig = {
-  apiKey: import.meta.env.VITE_FIREBASE_API_KEY,
-  authDomain: import.meta.env.VITE_FIREBASE_AUTH_DOMAIN,
-  projectId: import.meta.env.VITE_FIREBASE_PROJECT_ID,
-  storageBucket: import.meta.env.VITE_FIREBASE_STORAGE_BUCKET,
-  messagingSenderId: import.meta.env.VITE_FIREBASE_MESSAGING_SENDER_ID,
-  appId: import.meta.env.VITE_FIREBASE_APP_ID,
-};
+// ✅ NEW: Local emulator mode (auth, Firestore, storage, functions). Start them with
+// `npm run emulators` and fill them with `npm run seed`.
+const useEmulator = import.meta.env.VITE_USE_FIREBASE_EMULATOR === 'true';
+const emulatorHost = import.meta.env.VITE_FIREBASE_EMULATOR_HOST || '127.0.0.1';
+
+// A `demo-` project never reaches real Firebase, so the emulators need no credentials
+const EMULATOR_PROJECT_ID = 'demo-takemehomebox';
+
+const firebaseConfig = useEmulator
+  ? {
+      apiKey: 'demo-api-key',
+      authDomain: `${EMULATOR_PROJECT_ID}.firebaseapp.com`,
+      projectId: EMULATOR_PROJECT_ID,
+      storageBucket: `${EMULATOR_PROJECT_ID}.appspot.com`,
+      messagingSenderId: '0',
+      appId: 'demo-app-id',
+    }
+  : {
+      apiKey: import.meta.env.VITE_FIREBASE_API_KEY,
+      authDomain: import.meta.env.VITE_FIREBASE_AUTH_DOMAIN,
+      projectId: import.meta.env.VITE_FIREBASE_PROJECT_ID,
+      storageBucket: import.meta.env.VITE_FIREBASE_STORAGE_BUCKET,
+      messagingSenderId: import.meta.env.VITE_FIREBASE_MESSAGING_SENDER_ID,
+      appId: import.meta.env.VITE_FIREBASE_APP_ID,
+    };
 
 // Validate Firebase configuration
 const requiredEnvVars = [
@@ -22,7 +40,7 @@ const requiredEnvVars = [
   'VITE_FIREBASE_APP_ID'
 ];
 
-const missingVars = requiredEnvVars.filter(varName => 
+const missingVars = useEmulator ? [] : requiredEnvVars.filter(varName => 
   !import.meta.env[varName] || 
   import.meta.env[varName] === `your_${varName.toLowerCase().replace('vite_firebase_', '').replace('_', '_')}_here` ||
   import.meta.env[varName] === 'your_firebase_api_key_here' ||
@@ -47,7 +65,8 @@ console.log('[FIREBASE CONFIG]', {
   authDomain: firebaseConfig.authDomain || 'missing',
   storageBucket: firebaseConfig.storageBucket || 'missing',
   apiKey: firebaseConfig.apiKey ? '***configured***' : 'missing',
-  hasValidConfig: missingVars.length === 0
+  hasValidConfig: missingVars.length === 0,
+  useEmulator
 });
 
 // Initialize Firebase
@@ -55,6 +74,7 @@ let app;
 let auth;
 let db;
 let storage;
+let functions: Functions | null = null;
 
 try {
   if (missingVars.length === 0) {
@@ -64,6 +84,16 @@ try {
     // ✅ ENHANCED: Firestore initialization with connection management
     db = getFirestore(app);
     storage = getStorage(app);
+    functions = getFunctions(app);
+
+    // Must run before the first read or write on each service
+    if (useEmulator) {
+      connectAuthEmulator(auth, `http://${emulatorHost}:9099`, { disableWarnings: true });
+      connectFirestoreEmulator(db, emulatorHost, 8080);
+      connectStorageEmulator(storage, emulatorHost, 9199);
+      connectFunctionsEmulator(functions, emulatorHost, 5001);
+      console.log(`🧪 Using Firebase emulators on ${emulatorHost}`);
+    }
     
     // ✅ NEW: Set up connection monitoring
     if (typeof window !== 'undefined') {
@@ -94,16 +124,15 @@ try {
     auth = null as any;
     db = null as any;
     storage = null as any;
+    functions = null;
   }
 } catch (error) {
   console.error('❌ Firebase initialization failed:', error);
   auth = null as any;
   db = null as any;
   storage = null as any;
+  functions = null;
 }
 
-// ✅ REMOVED: Emulator connections to prevent production issues
-// Emulators should only be used in local development with explicit setup
-
-export { auth, db, storage };
+export { auth, db, storage, functions };
 export default app;
\ No newline at end of file
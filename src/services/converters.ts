@@ -0,0 +1,266 @@
+import {
+  DocumentData,
+  FirestoreDataConverter,
+  GeoPoint,
+  QueryDocumentSnapshot,
+  SnapshotOptions,
+  Timestamp,
+  WithFieldValue
+} from 'firebase/firestore';
+import type { BoxListing, BoxListingInput, ListingItem, UserProfile } from './firestore';
+
+// ✅ NEW: Read-time validation for listing and user documents. Recoverable problems
+// (a missing `images` array, an undefined `rating`) are defaulted; documents that can't
+// be shown at all read as null and are dropped by the service.
+
+export const LISTING_CATEGORIES = [
+  'books', 'clothes', 'toys', 'kitchen', 'electronics', 'furniture', 'garden', 'sports', 'other'
+];
+
+const LISTING_STATUSES: BoxListing['status'][] = [
+  'active', 'reserved', 'claimed', 'taken', 'expired', 'hidden', 'removed', 'deleted'
+];
+
+const USER_ROLES = ['user', 'moderator', 'admin'];
+
+export const MAX_LISTING_TITLE_LENGTH = 100;
+export const MAX_LISTING_DESCRIPTION_LENGTH = 1000;
+export const MAX_LISTING_IMAGES = 5;
+export const MAX_LISTING_ITEMS = 20;
+export const MAX_LISTING_ITEM_NAME_LENGTH = 60;
+
+// A malformed document is read over and over by live subscriptions; warn about it once
+const reportedViolations = new Set<string>();
+
+const reportViolation = (path: string, field: string, fallback: string) => {
+  const key = `${path}:${field}`;
+  if (reportedViolations.has(key)) return;
+
+  reportedViolations.add(key);
+  console.warn(`⚠️ Schema violation in ${path}: "${field}" is invalid, ${fallback}`);
+};
+
+const isString = (value: unknown): value is string => typeof value === 'string';
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+const isTimestamp = (value: unknown): value is Timestamp => value instanceof Timestamp;
+
+// Pending server timestamps read as estimates rather than null
+const readData = (snapshot: QueryDocumentSnapshot<DocumentData>, options?: SnapshotOptions) =>
+  snapshot.data({ ...options, serverTimestamps: options?.serverTimestamps ?? 'estimate' });
+
+const withDefault = <T>(
+  path: string,
+  data: DocumentData,
+  field: string,
+  isValid: (value: unknown) => value is T,
+  fallback: T
+): T => {
+  const value = data[field];
+  if (isValid(value)) return value;
+
+  // Missing optional-looking fields on old documents are expected; only flag wrong types
+  if (value !== undefined) {
+    reportViolation(path, field, `using ${JSON.stringify(fallback)}`);
+  }
+  return fallback;
+};
+
+const optional = <T>(
+  path: string,
+  data: DocumentData,
+  field: string,
+  isValid: (value: unknown) => value is T
+): T | undefined => {
+  const value = data[field];
+  if (isValid(value)) return value;
+
+  if (value !== undefined && value !== null) {
+    reportViolation(path, field, 'ignoring it');
+  }
+  return undefined;
+};
+
+const toGeoPoint = (value: unknown): GeoPoint | null => {
+  if (value instanceof GeoPoint) return value;
+
+  const point = value as { latitude?: unknown; longitude?: unknown } | null;
+  if (point && isFiniteNumber(point.latitude) && isFiniteNumber(point.longitude)) {
+    return new GeoPoint(point.latitude, point.longitude);
+  }
+  return null;
+};
+
+// Items are rewritten whole by claimListingItem, so leave out fields that aren't set -
+// Firestore rejects undefined values
+const parseListingItem = (path: string, value: unknown): ListingItem | null => {
+  const item = value as Record<string, unknown> | null;
+  if (!item || !isString(item.id) || !isString(item.name)) {
+    reportViolation(path, 'items', 'dropping an item without an id or name');
+    return null;
+  }
+
+  return {
+    id: item.id,
+    name: item.name,
+    category: isString(item.category) ? item.category : 'other',
+    ...(isFiniteNumber(item.imageIndex) && { imageIndex: item.imageIndex }),
+    taken: item.taken === true,
+    ...(isString(item.takenBy) && { takenBy: item.takenBy }),
+    ...(isString(item.takenByName) && { takenByName: item.takenByName }),
+    ...(isTimestamp(item.takenAt) && { takenAt: item.takenAt }),
+  };
+};
+
+export const parseListing = (id: string, data: DocumentData): BoxListing | null => {
+  const path = `listings/${id}`;
+
+  // Without an owner, a place on the map or a known status there is nothing to show
+  if (!isString(data.userId) || !data.userId) {
+    reportViolation(path, 'userId', 'skipping listing');
+    return null;
+  }
+
+  const coordinates = toGeoPoint(data.location?.coordinates);
+  if (!coordinates) {
+    reportViolation(path, 'location.coordinates', 'skipping listing');
+    return null;
+  }
+
+  if (!LISTING_STATUSES.includes(data.status)) {
+    reportViolation(path, 'status', 'skipping listing');
+    return null;
+  }
+
+  const images = Array.isArray(data.images) ? data.images.filter(isString) : [];
+  if (data.images !== undefined && images.length !== data.images?.length) {
+    reportViolation(path, 'images', 'keeping only the image URLs');
+  }
+
+  const createdAt = withDefault(path, data, 'createdAt', isTimestamp, Timestamp.fromMillis(0));
+  const items = Array.isArray(data.items)
+    ? data.items.map((item: unknown) => parseListingItem(path, item)).filter(isPresent)
+    : undefined;
+
+  return {
+    ...data,
+    id,
+    title: withDefault(path, data, 'title', isString, 'Untitled Box') || 'Untitled Box',
+    description: withDefault(path, data, 'description', isString, 'No description provided'),
+    category: withDefault(path, data, 'category', isString, 'other') || 'other',
+    images,
+    ...(items && { items }),
+    location: {
+      address: isString(data.location?.address) ? data.location.address : 'Location set on map',
+      coordinates,
+    },
+    isSpotted: data.isSpotted === true,
+    userId: data.userId,
+    userEmail: withDefault(path, data, 'userEmail', isString, ''),
+    username: withDefault(path, data, 'username', isString, 'Anonymous') || 'Anonymous',
+    rating: withDefault(path, data, 'rating', isFiniteNumber, 0),
+    ratingCount: withDefault(path, data, 'ratingCount', isFiniteNumber, 0),
+    ratingSum: withDefault(path, data, 'ratingSum', isFiniteNumber, 0),
+    status: data.status,
+    createdAt,
+    updatedAt: withDefault(path, data, 'updatedAt', isTimestamp, createdAt),
+    expiresAt: optional(path, data, 'expiresAt', isTimestamp),
+    reservationExpiresAt: optional(path, data, 'reservationExpiresAt', isTimestamp),
+    deletedAt: optional(path, data, 'deletedAt', isTimestamp),
+  };
+};
+
+// Reads yield null for unusable documents - filter them out with isPresent
+export const listingConverter: FirestoreDataConverter<BoxListing | null> = {
+  toFirestore: (listing: WithFieldValue<BoxListing | null>): DocumentData => {
+    if (!listing) {
+      throw new Error('Cannot write an empty listing');
+    }
+
+    const data: DocumentData = { ...listing };
+    delete data.id;
+    return data;
+  },
+  fromFirestore: (snapshot, options) => parseListing(snapshot.id, readData(snapshot, options)),
+};
+
+export const parseUserProfile = (id: string, data: DocumentData): UserProfile | null => {
+  const path = `users/${id}`;
+
+  if (!isString(data.username) && !isString(data.email)) {
+    reportViolation(path, 'username', 'skipping profile');
+    return null;
+  }
+
+  const now = new Date().toISOString();
+  const email = withDefault(path, data, 'email', isString, '');
+
+  return {
+    ...data,
+    id,
+    uid: id,
+    username: withDefault(path, data, 'username', isString, email.split('@')[0]) || email.split('@')[0],
+    email,
+    bio: withDefault(path, data, 'bio', isString, ''),
+    rating: withDefault(path, data, 'rating', isFiniteNumber, 0),
+    ratingCount: withDefault(path, data, 'ratingCount', isFiniteNumber, 0),
+    itemsGiven: withDefault(path, data, 'itemsGiven', isFiniteNumber, 0),
+    itemsTaken: withDefault(path, data, 'itemsTaken', isFiniteNumber, 0),
+    avatar: withDefault(path, data, 'avatar', isString, ''),
+    role: USER_ROLES.includes(data.role) ? data.role : 'user',
+    suspended: data.suspended === true,
+    blockedUsers: Array.isArray(data.blockedUsers) ? data.blockedUsers.filter(isString) : [],
+    createdAt: withDefault(path, data, 'createdAt', isString, now),
+    lastActive: withDefault(path, data, 'lastActive', isString, now),
+  };
+};
+
+export const userConverter: FirestoreDataConverter<UserProfile | null> = {
+  toFirestore: (profile: WithFieldValue<UserProfile | null>): DocumentData => {
+    if (!profile) {
+      throw new Error('Cannot write an empty user profile');
+    }
+    return { ...profile };
+  },
+  fromFirestore: (snapshot, options) => parseUserProfile(snapshot.id, readData(snapshot, options)),
+};
+
+export const isPresent = <T>(value: T | null | undefined): value is T => value !== null && value !== undefined;
+
+// Reject listings that rules or the UI can't handle before they reach Firestore
+export const validateListingInput = (input: BoxListingInput): void => {
+  const problems: string[] = [];
+
+  if (!isString(input.userId) || !input.userId) problems.push('a signed-in owner');
+  if (!isString(input.title) || input.title.length > MAX_LISTING_TITLE_LENGTH) {
+    problems.push(`a title of at most ${MAX_LISTING_TITLE_LENGTH} characters`);
+  }
+  if (!isString(input.description) || input.description.length > MAX_LISTING_DESCRIPTION_LENGTH) {
+    problems.push(`a description of at most ${MAX_LISTING_DESCRIPTION_LENGTH} characters`);
+  }
+  if (input.category && !LISTING_CATEGORIES.includes(input.category)) problems.push('a known category');
+  if (!Array.isArray(input.images) || input.images.length > MAX_LISTING_IMAGES || !input.images.every(isString)) {
+    problems.push(`up to ${MAX_LISTING_IMAGES} images`);
+  }
+  if (typeof input.isSpotted !== 'boolean') problems.push('a spotted/giving flag');
+  if (input.items !== undefined && (
+    !Array.isArray(input.items) ||
+    input.items.length > MAX_LISTING_ITEMS ||
+    !input.items.every(item =>
+      isString(item.id) && item.id &&
+      isString(item.name) && item.name.trim() && item.name.length <= MAX_LISTING_ITEM_NAME_LENGTH &&
+      (!item.category || LISTING_CATEGORIES.includes(item.category)) &&
+      (item.imageIndex === undefined || (Number.isInteger(item.imageIndex) && item.imageIndex >= 0 && item.imageIndex < (input.images?.length || 0)))
+    )
+  )) {
+    problems.push(`up to ${MAX_LISTING_ITEMS} named items, each with a known category and photo`);
+  }
+
+  const { lat, lng } = input.location?.coordinates || {};
+  if (!isFiniteNumber(lat) || !isFiniteNumber(lng) || Math.abs(lat) > 90 || Math.abs(lng) > 180) {
+    problems.push('a valid map location');
+  }
+
+  if (problems.length > 0) {
+    throw new Error(`Invalid listing: needs ${problems.join(', ')}`);
+  }
+};
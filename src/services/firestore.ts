@@ -4,6 +4,7 @@ import {
   getDocs, 
   doc, 
   updateDoc, 
+  setDoc,
   deleteDoc, 
   query, 
   where, 
@@ -13,14 +14,52 @@ import {
   serverTimestamp,
   GeoPoint,
   Timestamp,
-  arrayUnion,
   getDoc,
   increment,
+  deleteField,
   writeBatch,
+  runTransaction,
   enableNetwork,
-  disableNetwork
+  disableNetwork,
+  startAt,
+  endAt,
+  startAfter,
+  DocumentSnapshot,
+  QueryDocumentSnapshot,
+  Transaction,
+  QuerySnapshot,
+  DocumentData,
+  UpdateData
 } from 'firebase/firestore';
-import { db } from '../firebase.config';
+import { onAuthStateChanged } from 'firebase/auth';
+import { httpsCallable } from 'firebase/functions';
+import { auth, db, functions } from '../firebase.config';
+import { encodeGeohash, getGeohashQueryBounds, getGeohashesForRadius } from '../utils/geohash';
+import { buildSearchTokens, tokenize, scoreListing, MAX_QUERY_TOKENS } from '../utils/searchIndex';
+import { listingConverter, userConverter, isPresent, validateListingInput } from './converters';
+import {
+  OutboxOperation,
+  getOperations,
+  putOperation,
+  deleteOperation,
+  subscribeToOperations
+} from './outbox';
+
+// ✅ NEW: One thing in a multi-item box. Takers claim items one at a time and the listing
+// only goes to 'taken' once every item is gone.
+export interface ListingItem {
+  id: string;
+  name: string;
+  category: string;
+  imageIndex?: number;  // which of the listing's images shows it
+  taken: boolean;
+  takenBy?: string;
+  takenByName?: string;
+  takenAt?: Timestamp;
+}
+
+// What AddListing sends - taken state is only ever set by claimListingItem
+export type ListingItemInput = Pick<ListingItem, 'id' | 'name' | 'category' | 'imageIndex'>;
 
 export interface BoxListing {
   id?: string;
@@ -32,18 +71,39 @@ export interface BoxListing {
     address: string;
     coordinates: GeoPoint;
   };
+  geohash?: string;
+  searchTokens?: string[];
+  items?: ListingItem[];
   isSpotted: boolean;
   userId: string;
   userEmail: string;
   username: string;
   rating: number;
-  ratings: { userId: string; rating: number; comment?: string }[];
-  comments: Comment[];
-  status: 'active' | 'taken' | 'expired';
+  ratingCount: number;
+  ratingSum: number;
+  status: 'active' | 'reserved' | 'claimed' | 'taken' | 'expired' | 'hidden' | 'removed' | 'deleted';
   createdAt: Timestamp;
   updatedAt: Timestamp;
   expiresAt?: Timestamp;
+  renewCount?: number;
+  renewedAt?: Timestamp;
+  reservedBy?: string;
+  reservedByName?: string;
+  reservedAt?: Timestamp;
+  reservationExpiresAt?: Timestamp;
+  claimedBy?: string;
+  claimedByName?: string;
+  claimedAt?: Timestamp;
   takenBy?: string;
+  confirmedBy?: string;
+  confirmedAt?: Timestamp;
+  reportCount?: number;
+  hiddenAt?: Timestamp;
+  moderatedBy?: string;
+  moderatedAt?: Timestamp;
+  deletedAt?: Timestamp;
+  statusBeforeDelete?: BoxListing['status'];
+  statusBeforeModeration?: BoxListing['status'];  // what restoring a hidden or removed listing puts back
 }
 
 export interface Comment {
@@ -53,6 +113,221 @@ export interface Comment {
   userAvatar?: string;
   text: string;
   createdAt: Timestamp;
+  editedAt?: Timestamp;
+}
+
+export interface Rating {
+  id?: string;
+  userId: string;
+  listingId: string;
+  listingOwnerId: string;
+  rating: number;
+  comment?: string;
+  createdAt: Timestamp;
+  updatedAt: Timestamp;
+}
+
+export type ListingsCursor = QueryDocumentSnapshot<BoxListing | null>;
+
+export interface ListingsPage {
+  listings: BoxListing[];
+  cursor: ListingsCursor | null;
+  hasMore: boolean;
+}
+
+export interface CommentsPage {
+  comments: Comment[];
+  cursor: QueryDocumentSnapshot<DocumentData> | null;
+  hasMore: boolean;
+}
+
+// ✅ NEW: Private chat between a listing's giver and one interested taker
+export interface Conversation {
+  id?: string;
+  listingId: string;
+  listingTitle: string;
+  listingImage?: string;
+  ownerId: string;
+  takerId: string;
+  participants: string[];
+  participantNames: Record<string, string>;
+  lastMessage?: string;
+  lastSenderId?: string;
+  lastMessageAt?: Timestamp;
+  unreadCounts: Record<string, number>;
+  createdAt: Timestamp;
+  updatedAt: Timestamp;
+}
+
+export interface Message {
+  id?: string;
+  senderId: string;
+  senderName: string;
+  text: string;
+  createdAt: Timestamp;
+}
+
+export interface MessagesPage {
+  messages: Message[];
+  hasMore: boolean;
+}
+
+// ✅ NEW: Saved map search that alerts its owner to new matching boxes
+export interface SavedSearch {
+  id?: string;
+  userId: string;
+  name: string;
+  term: string;
+  termTokens: string[];
+  category: string;
+  center: { lat: number; lng: number };
+  radiusKm: number;
+  // Geohash cells covering the search circle, matched against new listings by the
+  // notifySavedSearches function
+  geohashes: string[];
+  createdAt: Timestamp;
+}
+
+export interface SavedSearchInput {
+  name?: string;
+  term: string;
+  category: string;
+  center: { lat: number; lng: number };
+  radiusKm: number;
+}
+
+// ✅ NEW: Listing reports, one per reporter per listing (id `${listingId}_${reporterId}`)
+export type ReportReason = 'prohibited' | 'unsafe' | 'spam' | 'not-there';
+
+export const REPORT_REASONS: { id: ReportReason; label: string }[] = [
+  { id: 'prohibited', label: 'Prohibited item' },
+  { id: 'unsafe', label: 'Unsafe' },
+  { id: 'spam', label: 'Spam' },
+  { id: 'not-there', label: "It's not there" },
+];
+
+export interface Report {
+  id?: string;
+  listingId: string;
+  listingTitle: string;
+  listingOwnerId: string;
+  reporterId: string;
+  reason: ReportReason;
+  details?: string;
+  status: 'open' | 'resolved' | 'dismissed';
+  createdAt: Timestamp;
+  resolvedBy?: string;
+  resolvedAt?: Timestamp;
+}
+
+// Open reports grouped per listing for the moderation queue
+export interface ReportedListing {
+  listingId: string;
+  listingTitle: string;
+  listingOwnerId: string;
+  reports: Report[];
+}
+
+// Profile stored in users/{uid}; read through userConverter so missing fields get defaults
+export interface UserProfile {
+  id: string;
+  uid: string;
+  username: string;
+  email: string;
+  bio?: string;
+  rating: number;
+  ratingCount?: number;
+  itemsGiven: number;
+  itemsTaken: number;
+  avatar?: string;
+  // Granted from the Firebase console; gates the moderation queue
+  role?: 'user' | 'moderator' | 'admin';
+  // Set by an admin; suspended users can browse but not post, comment or message
+  suspended?: boolean;
+  suspendedBy?: string;
+  // Users whose listings and comments are hidden from me; rules also stop them
+  // commenting on, reserving or messaging about my listings
+  blockedUsers?: string[];
+  blockedUserNames?: Record<string, string>;
+  createdAt: string;
+  lastActive: string;
+}
+
+// ✅ NEW: Admin console views
+export interface UserSummary {
+  id: string;
+  username: string;
+  email: string;
+  role?: 'user' | 'moderator' | 'admin';
+  suspended?: boolean;
+  suspendedBy?: string;
+  itemsGiven?: number;
+  itemsTaken?: number;
+  createdAt: string;
+  lastActive?: string;
+}
+
+// ✅ NEW: Append-only audit trail under listings/{listingId}/history/{entryId}, written in
+// the same batch or transaction as the change it describes. Entries outlive the listing.
+export type ListingHistoryEvent =
+  | 'created'
+  | 'edited'
+  | 'renewed'
+  | 'status_changed'
+  | 'reserved'
+  | 'released'
+  | 'claimed'
+  | 'claim_declined'
+  | 'taken'
+  | 'expired'
+  | 'item_taken'
+  | 'deleted'
+  | 'reported'
+  | 'reports_dismissed'
+  | 'hidden'
+  | 'removed'
+  | 'restored'
+  | 'recovered'
+  | 'purged';
+
+export interface ListingHistoryRecord {
+  id?: string;
+  event: ListingHistoryEvent;
+  listingOwnerId: string;
+  actorId?: string;   // missing for scheduled/server events and for reports
+  actorName?: string;
+  details?: string;
+  at: Timestamp;
+}
+
+export interface ListingHistoryEntry {
+  at: Timestamp;
+  label: string;
+  event?: ListingHistoryEvent;
+}
+
+// ✅ NEW: Bookmarked listing under users/{uid}/favorites/{listingId}. listingStatus is
+// kept in sync server-side so taken or expired favorites can still be shown.
+export interface Favorite {
+  id?: string;
+  listingId: string;
+  listingTitle: string;
+  listingImage?: string;
+  listingOwnerId: string;
+  listingStatus: BoxListing['status'];
+  createdAt: Timestamp;
+}
+
+// In-app notification entries under users/{uid}/notifications, written server-side
+export interface AppNotification {
+  id?: string;
+  type: 'saved-search-match' | 'favorite-unavailable';
+  title: string;
+  body: string;
+  listingId?: string;
+  savedSearchId?: string;
+  read: boolean;
+  createdAt: Timestamp;
 }
 
 export interface BoxListingInput {
@@ -68,14 +343,108 @@ export interface BoxListingInput {
   userId: string;
   userEmail: string;
   username: string;
+  items?: ListingItemInput[];
+}
+
+export interface BoxListingUpdate {
+  title?: string;
+  description?: string;
+  category?: string;
+  images?: string[];
+  items?: ListingItemInput[];
+  location?: {
+    address: string;
+    coordinates: { lat: number; lng: number };
+  };
 }
 
 // Collections
 const LISTINGS_COLLECTION = 'listings';
 const USERS_COLLECTION = 'users';
+const COMMENTS_SUBCOLLECTION = 'comments';
+const RATINGS_SUBCOLLECTION = 'ratings';
+const CONVERSATIONS_COLLECTION = 'conversations';
+const MESSAGES_SUBCOLLECTION = 'messages';
+const SAVED_SEARCHES_SUBCOLLECTION = 'savedSearches';
+const NOTIFICATIONS_SUBCOLLECTION = 'notifications';
+const FAVORITES_SUBCOLLECTION = 'favorites';
+const REPORTS_COLLECTION = 'reports';
+const HISTORY_SUBCOLLECTION = 'history';
+
+// ✅ NEW: Listing reads go through listingConverter, which defaults missing fields and
+// reads unusable documents as null
+const listingsCollection = () => collection(db, LISTINGS_COLLECTION).withConverter(listingConverter);
+const listingDoc = (listingId: string) => doc(db, LISTINGS_COLLECTION, listingId).withConverter(listingConverter);
+const toListings = (snapshot: QuerySnapshot<BoxListing | null>): BoxListing[] =>
+  snapshot.docs.map(doc => doc.data()).filter(isPresent);
+
+// Non-spotted boxes expire 48 hours after posting or renewal, and can't be renewed
+// past 14 days from when they were first posted
+const LISTING_TTL_MS = 48 * 60 * 60 * 1000;
+const MAX_LISTING_LIFETIME_MS = 14 * 24 * 60 * 60 * 1000;
+
+// "I'm on my way" holds lapse after 30 minutes
+const RESERVATION_HOLD_MS = 30 * 60 * 1000;
+
+// Reserved boxes stay on the map so people can see someone is already heading there, and
+// claimed ones so a second person can confirm a spotted box is really gone
+const FEED_STATUSES = ['active', 'reserved', 'claimed'];
+
+const LISTINGS_PAGE_SIZE = 50;
+const COMMENTS_PAGE_SIZE = 20;
+const MAX_COMMENT_LENGTH = 500;
+const MESSAGES_PAGE_SIZE = 30;
+const MAX_MESSAGE_LENGTH = 1000;
+const MAX_SAVED_SEARCHES = 10;
+const MAX_SAVED_SEARCH_RADIUS_KM = 50;
+const NOTIFICATIONS_PAGE_SIZE = 50;
+const MAX_REPORT_DETAILS_LENGTH = 500;
+const ADMIN_PAGE_SIZE = 50;
 
 // Connection state management
-let connectionState: 'connected' | 'disconnected' | 'reconnecting' = 'connected';
+export type ConnectionState = 'connected' | 'reconnecting' | 'offline';
+
+export interface ConnectionStatus {
+  state: ConnectionState;
+  lastSyncAt: number | null; // last time fresh data came from the server
+  pendingWrites: number;     // outbox operations waiting to be sent
+}
+
+// Before the first read of this session, cached listings are as old as the persistent cache
+const getPersistentCacheTime = (): number | null => {
+  try {
+    const cached = localStorage.getItem('cached_listings_persistent');
+    return cached ? JSON.parse(cached).timestamp ?? null : null;
+  } catch {
+    return null;
+  }
+};
+
+let connectionStatus: ConnectionStatus = {
+  state: typeof navigator !== 'undefined' && !navigator.onLine ? 'offline' : 'connected',
+  lastSyncAt: getPersistentCacheTime(),
+  pendingWrites: 0,
+};
+const connectionListeners = new Set<(status: ConnectionStatus) => void>();
+
+const updateConnectionStatus = (changes: Partial<ConnectionStatus>) => {
+  const next = { ...connectionStatus, ...changes };
+  if (
+    next.state === connectionStatus.state &&
+    next.lastSyncAt === connectionStatus.lastSyncAt &&
+    next.pendingWrites === connectionStatus.pendingWrites
+  ) {
+    return;
+  }
+
+  connectionStatus = next;
+  connectionListeners.forEach(listener => listener(next));
+};
+
+const setConnectionState = (state: ConnectionState) => updateConnectionStatus({ state });
+
+const markSynced = () => updateConnectionStatus({ state: 'connected', lastSyncAt: Date.now() });
+
 let retryCount = 0;
 const MAX_RETRIES = 3;
 const RETRY_DELAYS = [1000, 2000, 5000];
@@ -159,23 +528,229 @@ const handleConnectionError = (error: any) => {
     
     console.warn('⚠️ Switching to offline mode due to connection issues');
     isOfflineMode = true;
-    connectionState = 'disconnected';
+    setConnectionState('offline');
     
     // Try to reconnect after a delay
     setTimeout(async () => {
       try {
         if (isFirebaseConfigured()) {
+          setConnectionState('reconnecting');
           await enableNetwork(db);
           isOfflineMode = false;
-          connectionState = 'connected';
+          setConnectionState('connected');
           console.log('✅ Reconnected to Firestore');
+          replayOutbox();
         }
       } catch (reconnectError) {
         console.error('❌ Failed to reconnect:', reconnectError);
+        setConnectionState('offline');
       }
     }, 5000);
   }
 };
+// ✅ NEW: Durable outbox for user-facing writes. Unlike queueOperation, these are
+// persisted to IndexedDB (see ./outbox) before they are attempted, so a listing
+// posted in a dead zone is still sent after the tab is closed and reopened.
+// Transactions (reserve, claim, ratings...) stay on queueOperation since they
+// need a server round trip to mean anything.
+export interface OutboxPayloads {
+  createListing: { listingId: string; input: BoxListingInput };
+  updateListing: { listingId: string; updates: BoxListingUpdate };
+  updateListingStatus: { listingId: string; status: BoxListing['status'] };
+  deleteListing: { listingId: string };
+  restoreListing: { listingId: string };
+  addComment: {
+    listingId: string;
+    commentId: string;
+    userId: string;
+    username: string;
+    text: string;
+    userAvatar?: string;
+  };
+}
+
+type OutboxType = keyof OutboxPayloads;
+
+// Handlers must be idempotent. A write that timed out may still land, so each one runs
+// in a transaction that first checks for the doc it creates (keyed on the write's id)
+// and does nothing if an earlier attempt already got through.
+const outboxHandlers: { [K in OutboxType]: (payload: OutboxPayloads[K], writeId: string) => Promise<void> } = {
+  createListing: ({ listingId, input }, writeId) => writeNewListing(listingId, input, writeId),
+  updateListing: ({ listingId, updates }, writeId) => writeListingUpdate(listingId, updates, writeId),
+  updateListingStatus: ({ listingId, status }, writeId) => writeListingStatus(listingId, status, writeId),
+  deleteListing: ({ listingId }, writeId) => writeListingDeletion(listingId, writeId),
+  restoreListing: ({ listingId }, writeId) => writeListingRestore(listingId, writeId),
+  addComment: (payload) => writeComment(payload),
+};
+
+// Operations queued before writeId existed fall back to their dedupe key and queue time
+const getWriteId = (operation: OutboxOperation) => operation.writeId || `${operation.id}_${operation.createdAt}`;
+
+// Writes made while offline resolve only once the server acknowledges them
+const OUTBOX_WRITE_TIMEOUT_MS = 15000;
+
+// Anything else (permission-denied, invalid-argument...) won't succeed on retry
+const TRANSIENT_ERROR_CODES = ['unavailable', 'deadline-exceeded', 'resource-exhausted', 'aborted', 'cancelled'];
+
+const isTransientError = (error: any) =>
+  TRANSIENT_ERROR_CODES.includes(error?.code) || error?.message?.includes('network');
+
+const runOutboxOperation = async (operation: OutboxOperation): Promise<OutboxOperation['status'] | 'synced'> => {
+  const handler = outboxHandlers[operation.type as OutboxType] as ((payload: unknown, writeId: string) => Promise<void>) | undefined;
+  if (!handler) {
+    console.warn(`⚠️ Dropping outbox operation with unknown type "${operation.type}"`);
+    await deleteOperation(operation.id);
+    return 'synced';
+  }
+
+  // A newer write queued under the same id while this one was in flight replaces it in the
+  // outbox; leave that one alone whatever happens to this attempt
+  const isStillQueued = async () =>
+    (await getOperations()).find(op => op.id === operation.id)?.writeId === operation.writeId;
+
+  let timeout: ReturnType<typeof setTimeout> | undefined;
+  try {
+    await Promise.race([
+      handler(operation.payload, getWriteId(operation)),
+      new Promise<never>((_, reject) => {
+        timeout = setTimeout(
+          () => reject(Object.assign(new Error('Timed out waiting for the server'), { code: 'deadline-exceeded' })),
+          OUTBOX_WRITE_TIMEOUT_MS
+        );
+      })
+    ]);
+    if (await isStillQueued()) {
+      await deleteOperation(operation.id);
+    }
+    console.log(`✅ Outbox operation ${operation.id} synced`);
+    return 'synced';
+  } catch (error: any) {
+    const status = isTransientError(error) ? 'pending' : 'failed';
+    console.error(`❌ Outbox operation ${operation.id} failed${status === 'pending' ? ', will retry' : ''}:`, error);
+
+    if (await isStillQueued()) {
+      await putOperation({
+        ...operation,
+        status,
+        attempts: operation.attempts + 1,
+        lastError: error?.message || 'Unknown error',
+      });
+    }
+    return status;
+  } finally {
+    clearTimeout(timeout);
+  }
+};
+
+let replayChain: Promise<void> = Promise.resolve();
+
+// Replays the signed-in user's pending operations oldest first. Stops at the
+// first transient failure so later edits never land before earlier ones.
+const replayOutbox = (): Promise<void> => {
+  replayChain = replayChain.then(async () => {
+    const userId = auth?.currentUser?.uid;
+    if (!userId || !isFirebaseConfigured()) return;
+
+    const pending = (await getOperations()).filter(op => op.userId === userId && op.status === 'pending');
+    if (pending.length === 0) return;
+
+    console.log(`🔄 Replaying ${pending.length} outbox operation(s)`);
+    for (const operation of pending) {
+      // Still offline - leave the rest queued for the next reconnect
+      if (await runOutboxOperation(operation) === 'pending') break;
+    }
+  }).catch(error => {
+    console.error('❌ Outbox replay failed:', error);
+  });
+
+  return replayChain;
+};
+
+// Persists the write, then tries to send it. Resolves once it is safely queued
+// when offline; online, it waits for the result and throws if it was rejected.
+const queueDurableWrite = async <K extends OutboxType>(
+  type: K,
+  id: string,
+  label: string,
+  payload: OutboxPayloads[K]
+): Promise<void> => {
+  const userId = auth?.currentUser?.uid;
+  if (!userId) {
+    throw new Error('You must be signed in to make changes');
+  }
+
+  await putOperation({
+    id,
+    // A fresh auto-id, like the ones Firestore picks for new docs
+    writeId: doc(collection(db, LISTINGS_COLLECTION)).id,
+    type,
+    payload,
+    userId,
+    label,
+    status: 'pending',
+    attempts: 0,
+    createdAt: Date.now(),
+  });
+
+  if (!navigator.onLine) {
+    console.log(`📦 Offline, queued "${label}" for later`);
+    return;
+  }
+
+  await replayOutbox();
+
+  const failed = (await getOperations()).find(op => op.id === id && op.status === 'failed');
+  if (failed) {
+    throw new Error(failed.lastError || `Failed to ${label.toLowerCase()}`);
+  }
+};
+
+// ✅ NEW: Outbox controls for the sync banner
+export type { OutboxOperation };
+
+export const subscribeToOutbox = (
+  userId: string,
+  callback: (operations: OutboxOperation[]) => void
+): (() => void) =>
+  subscribeToOperations(operations => callback(operations.filter(op => op.userId === userId)));
+
+export const retryOutboxOperation = async (id: string): Promise<void> => {
+  const operation = (await getOperations()).find(op => op.id === id);
+  if (!operation) return;
+
+  await putOperation({ ...operation, status: 'pending' });
+  await replayOutbox();
+};
+
+export const discardOutboxOperation = (id: string): Promise<void> => deleteOperation(id);
+
+const countPendingWrites = (operations: OutboxOperation[]) => {
+  const userId = auth?.currentUser?.uid;
+  updateConnectionStatus({
+    pendingWrites: operations.filter(op => op.userId === userId && op.status === 'pending').length
+  });
+};
+
+subscribeToOperations(countPendingWrites);
+
+if (typeof window !== 'undefined') {
+  window.addEventListener('online', () => {
+    setConnectionState('connected');
+    replayOutbox();
+  });
+  window.addEventListener('offline', () => {
+    setConnectionState('offline');
+  });
+}
+
+if (auth) {
+  // Picks up anything left over from a previous session once the user is known
+  onAuthStateChanged(auth, user => {
+    getOperations().then(countPendingWrites);
+    if (user) replayOutbox();
+  });
+}
+
 // ✅ OPTIMIZED: Enhanced retry wrapper with circuit breaker
 const withRetry = async <T>(
   operation: () => Promise<T>, 
@@ -186,9 +761,9 @@ const withRetry = async <T>(
   
   for (let attempt = 1; attempt <= maxRetries; attempt++) {
     try {
-      connectionState = 'connected';
       const result = await operation();
       retryCount = 0;
+      markSynced();
       return result;
     } catch (error: any) {
       lastError = error;
@@ -206,7 +781,7 @@ const withRetry = async <T>(
       }
       
       if (attempt === maxRetries) {
-        connectionState = 'disconnected';
+        setConnectionState('offline');
         break;
       }
       
@@ -215,7 +790,7 @@ const withRetry = async <T>(
       const jitter = Math.random() * 1000;
       const delay = baseDelay + jitter;
       
-      connectionState = 'reconnecting';
+      setConnectionState('reconnecting');
       console.log(`⏳ Retrying ${operationName} in ${Math.round(delay)}ms...`);
       await new Promise(resolve => setTimeout(resolve, delay));
     }
@@ -224,6 +799,39 @@ const withRetry = async <T>(
   throw lastError;
 };
 
+const newHistoryRef = (listingId: string) =>
+  doc(collection(db, LISTINGS_COLLECTION, listingId, HISTORY_SUBCOLLECTION));
+
+// Outbox writes record their history entry under the write's id, which doubles as a
+// receipt: if it is already there, an earlier attempt of the same write landed
+const outboxHistoryRef = (listingId: string, writeId: string) =>
+  doc(db, LISTINGS_COLLECTION, listingId, HISTORY_SUBCOLLECTION, writeId);
+
+const isAlreadyWritten = async (transaction: Transaction, listingId: string, writeId: string) => {
+  const written = (await transaction.get(outboxHistoryRef(listingId, writeId))).exists();
+  if (written) {
+    console.log(`📦 Outbox write ${writeId} on listing ${listingId} already landed, skipping`);
+  }
+  return written;
+};
+
+// Reports are recorded without the reporter so owners can't see who flagged them
+const historyEntry = (
+  event: ListingHistoryEvent,
+  listingOwnerId: string,
+  { actorName, details, anonymous = false }: { actorName?: string; details?: string; anonymous?: boolean } = {}
+) => {
+  const actorId = anonymous ? undefined : auth?.currentUser?.uid;
+  return {
+    event,
+    listingOwnerId,
+    ...(actorId && { actorId }),
+    ...(actorName && { actorName }),
+    ...(details && { details }),
+    at: serverTimestamp(),
+  };
+};
+
 // ✅ OPTIMIZED: Faster listing creation with batched operations and enhanced debugging
 export async function createListing(listingData: BoxListingInput): Promise<string> {
   console.log('🟡 [DEBUG] ===== FIRESTORE CREATE LISTING STARTED =====');
@@ -245,141 +853,399 @@ export async function createListing(listingData: BoxListingInput): Promise<strin
     throw new Error('Firebase is not configured. Please set up your Firebase project and environment variables.');
   }
 
-  return queueOperation(async () => {
-    try {
-      console.log('🟡 [DEBUG] Starting queued operation for createListing');
-      
-      if (!listingData.userId) {
-        console.error('❌ [DEBUG] Missing userId');
-        throw new Error('Missing userId in listingData');
-      }
-      if (!listingData.location?.coordinates) {
-        console.error('❌ [DEBUG] Missing location coordinates');
-        throw new Error('Missing location coordinates');
-      }
-      
-      console.log('✅ [DEBUG] Basic validation passed');
-      
-      // Convert input data to Firestore format
-      const now = serverTimestamp();
-      
-      // Calculate expiry date (48 hours from now for non-spotted items)
-      const expiresAt = listingData.isSpotted 
-        ? null 
-        : new Date(Date.now() + 48 * 60 * 60 * 1000);
-
-      const docData = {
-        title: listingData.title || 'Untitled Box',
-        description: listingData.description || 'No description provided',
-        category: listingData.category || 'other',
-        images: listingData.images || [],
-        location: {
-          address: listingData.location.address || 'Location set on map',
-          coordinates: new GeoPoint(
-            listingData.location.coordinates.lat,
-            listingData.location.coordinates.lng
-          ),
-        },
-        isSpotted: listingData.isSpotted,
-        userId: listingData.userId,
-        userEmail: listingData.userEmail,
-        username: listingData.username,
-        rating: 0,
-        ratings: [],
-        comments: [],
-        status: 'active',
-        createdAt: now,
-        updatedAt: now,
-        ...(expiresAt && { expiresAt: Timestamp.fromDate(expiresAt) }),
-      };
+  if (!listingData.userId) {
+    console.error('❌ [DEBUG] Missing userId');
+    throw new Error('Missing userId in listingData');
+  }
+  if (!listingData.location?.coordinates) {
+    console.error('❌ [DEBUG] Missing location coordinates');
+    throw new Error('Missing location coordinates');
+  }
 
-      console.log('🟡 [DEBUG] Formatted document data:', docData);
+  // ✅ NEW: Reject anything the read-side converter would have to repair
+  validateListingInput(listingData);
 
-      // ✅ OPTIMIZED: Use batch write for atomic operations
-      console.log('🟡 [DEBUG] Creating batch write operation...');
-      const batch = writeBatch(db);
-      
-      // Create the listing
-      const listingRef = doc(collection(db, LISTINGS_COLLECTION));
-      console.log('🟡 [DEBUG] Generated listing reference:', listingRef.id);
-      batch.set(listingRef, docData);
-      
-      // Update user's itemsGiven count
-      const userRef = doc(db, USERS_COLLECTION, listingData.userId);
-      console.log('🟡 [DEBUG] Adding user update to batch for userId:', listingData.userId);
-      batch.update(userRef, {
-        itemsGiven: increment(1),
-        lastActive: serverTimestamp()
-      });
-      
-      // Commit batch
-      console.log('🟡 [DEBUG] Committing batch operation...');
-      await batch.commit();
-      
-      console.log('🎉 [DEBUG] ===== FIRESTORE CREATE LISTING SUCCESS =====');
-      console.log('✅ [DEBUG] Listing saved with ID:', listingRef.id);
-      console.log('✅ [DEBUG] User itemsGiven count incremented successfully');
+  console.log('✅ [DEBUG] Basic validation passed');
 
-      return listingRef.id;
-    } catch (error: any) {
-      console.error('❌ [DEBUG] ===== FIRESTORE CREATE LISTING FAILED =====');
-      console.error('❌ [DEBUG] Error details:', {
-        message: error.message,
-        code: error.code,
-        stack: error.stack
-      });
-      throw error;
-    }
-  });
+  // The id is picked up front so a replayed create can't post the box twice
+  const listingId = doc(collection(db, LISTINGS_COLLECTION)).id;
+  await queueDurableWrite(
+    'createListing',
+    `createListing_${listingId}`,
+    `Post "${listingData.title || 'Untitled Box'}"`,
+    { listingId, input: listingData }
+  );
+
+  return listingId;
 }
 
-// ✅ OPTIMIZED: Enhanced caching with compression
-const compressData = (data: any): string => {
+// Firestore rejects undefined fields, and serverTimestamp() can't be used inside arrays
+const toListingItem = (item: ListingItemInput, existing?: ListingItem): ListingItem => ({
+  id: item.id,
+  name: item.name.trim(),
+  category: item.category || 'other',
+  ...(item.imageIndex !== undefined && { imageIndex: item.imageIndex }),
+  taken: existing?.taken || false,
+  ...(existing?.takenBy && { takenBy: existing.takenBy }),
+  ...(existing?.takenByName && { takenByName: existing.takenByName }),
+  ...(existing?.takenAt && { takenAt: existing.takenAt }),
+});
+
+// Outbox handler for createListing
+const writeNewListing = async (listingId: string, listingData: BoxListingInput, writeId: string): Promise<void> => {
   try {
-    return JSON.stringify(data);
-  } catch (error) {
-    console.warn('Failed to compress data:', error);
-    return '[]';
+    console.log('🟡 [DEBUG] Writing listing from the outbox:', listingId);
+    
+    // Convert input data to Firestore format
+    const now = serverTimestamp();
+    
+    // Calculate expiry date (48 hours from now for non-spotted items)
+    const expiresAt = listingData.isSpotted 
+      ? null 
+      : new Date(Date.now() + LISTING_TTL_MS);
+
+    const title = listingData.title || 'Untitled Box';
+    const description = listingData.description || 'No description provided';
+    const category = listingData.category || 'other';
+    const items = (listingData.items || []).map(item => toListingItem(item));
+
+    const docData = {
+      title,
+      description,
+      category,
+      images: listingData.images || [],
+      location: {
+        address: listingData.location.address || 'Location set on map',
+        coordinates: new GeoPoint(
+          listingData.location.coordinates.lat,
+          listingData.location.coordinates.lng
+        ),
+      },
+      geohash: encodeGeohash(
+        listingData.location.coordinates.lat,
+        listingData.location.coordinates.lng
+      ),
+      searchTokens: buildSearchTokens({ title, description, category, items }),
+      ...(items.length > 0 && { items }),
+      isSpotted: listingData.isSpotted,
+      userId: listingData.userId,
+      userEmail: listingData.userEmail,
+      username: listingData.username,
+      rating: 0,
+      ratingCount: 0,
+      ratingSum: 0,
+      status: 'active',
+      createdAt: now,
+      updatedAt: now,
+      ...(expiresAt && { expiresAt: Timestamp.fromDate(expiresAt) }),
+    };
+
+    console.log('🟡 [DEBUG] Formatted document data:', docData);
+
+    // ✅ OPTIMIZED: Use a transaction for atomic operations
+    console.log('🟡 [DEBUG] Creating transaction...');
+    const listingRef = doc(db, LISTINGS_COLLECTION, listingId);
+    const userRef = doc(db, USERS_COLLECTION, listingData.userId);
+
+    await runTransaction(db, async (transaction) => {
+      // Never overwrite a listing an earlier attempt created, it may have been edited since
+      if (await isAlreadyWritten(transaction, listingId, writeId)) return;
+
+      // Create the listing
+      transaction.set(listingRef, docData);
+      transaction.set(outboxHistoryRef(listingId, writeId), historyEntry('created', listingData.userId, {
+        actorName: listingData.username
+      }));
+
+      // itemsGiven is credited by the creditPickup function once a pickup is confirmed
+      console.log('🟡 [DEBUG] Adding user update to transaction for userId:', listingData.userId);
+      transaction.update(userRef, {
+        lastActive: serverTimestamp()
+      });
+    });
+    
+    console.log('🎉 [DEBUG] ===== FIRESTORE CREATE LISTING SUCCESS =====');
+    console.log('✅ [DEBUG] Listing saved with ID:', listingRef.id);
+  } catch (error: any) {
+    console.error('❌ [DEBUG] ===== FIRESTORE CREATE LISTING FAILED =====');
+    console.error('❌ [DEBUG] Error details:', {
+      message: error.message,
+      code: error.code,
+      stack: error.stack
+    });
+    throw error;
   }
 };
 
-const decompressData = (compressed: string): any => {
-  try {
-    return JSON.parse(compressed);
-  } catch (error) {
-    console.warn('Failed to decompress data:', error);
-    return [];
+// ✅ NEW: Edit an existing listing in place (keeps its id, stats, ratings and comments)
+export const updateListing = async (
+  listingId: string,
+  updates: BoxListingUpdate
+): Promise<void> => {
+  if (!isFirebaseConfigured()) {
+    throw new Error('Firebase is not configured');
   }
-};
 
-// ✅ OPTIMIZED: Multi-level caching system
-const cacheListings = (listings: BoxListing[]) => {
-  try {
-    const cacheData = {
-      data: listings,
-      timestamp: Date.now()
-    };
-    
-    // Memory cache (fastest)
-    sessionStorage.setItem('cached_listings', compressData(cacheData));
-    
-    // Persistent cache (survives page refresh)
-    localStorage.setItem('cached_listings_persistent', compressData(cacheData));
-  } catch (error) {
-    console.warn('Failed to cache listings:', error);
+  if (!listingId) {
+    throw new Error('Missing listingId');
   }
+
+  // A later edit is merged into an earlier one that hasn't synced yet, so fields changed
+  // only in the earlier edit aren't lost
+  const id = `updateListing_${listingId}`;
+  const queued = (await getOperations()).find(op => op.id === id);
+  const merged: BoxListingUpdate = queued
+    ? { ...(queued.payload as OutboxPayloads['updateListing']).updates, ...updates }
+    : updates;
+
+  return queueDurableWrite(
+    'updateListing',
+    id,
+    `Edit "${merged.title || 'listing'}"`,
+    { listingId, updates: merged }
+  );
 };
 
-const getCachedListings = (): BoxListing[] => {
-  try {
-    // Try memory cache first
-    let cached = sessionStorage.getItem('cached_listings');
-    if (cached) {
-      const { data, timestamp } = decompressData(cached);
-      // Use cache if less than 2 minutes old
-      if (Date.now() - timestamp < 2 * 60 * 1000) {
-        console.log('📦 Using memory cached listings');
-        return data;
+// Outbox handler for updateListing
+const writeListingUpdate = async (listingId: string, updates: BoxListingUpdate, writeId: string): Promise<void> => {
+  const listingRef = doc(db, LISTINGS_COLLECTION, listingId);
+
+  const ownerId = await runTransaction(db, async (transaction) => {
+    const snap = await transaction.get(listingRef.withConverter(listingConverter));
+    const current = snap.data();
+    if (!current) {
+      throw new Error('Listing not found');
+    }
+    if (await isAlreadyWritten(transaction, listingId, writeId)) return current.userId;
+
+    const title = updates.title !== undefined ? updates.title || 'Untitled Box' : current.title;
+    const description = updates.description !== undefined
+      ? updates.description || 'No description provided'
+      : current.description;
+    const category = updates.category !== undefined ? updates.category || 'other' : current.category;
+    // Edited items keep whether they have been taken
+    const items = updates.items
+      ? updates.items.map(item => toListingItem(item, current.items?.find(existing => existing.id === item.id)))
+      : current.items;
+
+    const updateData: UpdateData<DocumentData> = {
+      title,
+      description,
+      category,
+      // Keep the keyword index in sync with the edited text
+      searchTokens: buildSearchTokens({ title, description, category, items }),
+      updatedAt: serverTimestamp(),
+    };
+
+    if (updates.items) {
+      updateData.items = items && items.length > 0 ? items : deleteField();
+    }
+
+    if (updates.images) {
+      updateData.images = updates.images;
+    }
+
+    if (updates.location) {
+      const { lat, lng } = updates.location.coordinates;
+      updateData.location = {
+        address: updates.location.address || 'Location set on map',
+        coordinates: new GeoPoint(lat, lng),
+      };
+      updateData.geohash = encodeGeohash(lat, lng);
+    }
+
+    transaction.update(listingRef, updateData);
+    transaction.set(outboxHistoryRef(listingId, writeId), historyEntry('edited', current.userId));
+    return current.userId;
+  });
+  clearUserListingsCache(ownerId);
+
+  console.log(`✅ Listing ${listingId} updated`);
+};
+
+// ✅ NEW: "Still out there" - push expiresAt forward and reactivate expired listings
+export const renewListing = async (listingId: string, userId: string): Promise<Date> => {
+  if (!isFirebaseConfigured()) {
+    throw new Error('Firebase is not configured');
+  }
+
+  if (!listingId || !userId) {
+    throw new Error('Missing required parameters: listingId and userId');
+  }
+
+  return queueOperation(async () => {
+    const listingRef = doc(db, LISTINGS_COLLECTION, listingId);
+
+    const newExpiry = await runTransaction(db, async (transaction) => {
+      const snap = await transaction.get(listingRef.withConverter(listingConverter));
+      const listing = snap.data();
+      if (!listing) {
+        throw new Error('Listing not found');
+      }
+      if (listing.userId !== userId) {
+        throw new Error('Only the owner can renew a listing');
+      }
+      if (listing.status !== 'active' && listing.status !== 'reserved' && listing.status !== 'expired') {
+        throw new Error('Only active or expired listings can be renewed');
+      }
+      if (listing.isSpotted || !listing.expiresAt) {
+        throw new Error('Spotted boxes do not expire');
+      }
+
+      const now = Date.now();
+      const maxExpiry = listing.createdAt.toMillis() + MAX_LISTING_LIFETIME_MS;
+      const extendFrom = Math.max(now, listing.expiresAt.toMillis());
+      const expiry = Math.min(extendFrom + LISTING_TTL_MS, maxExpiry);
+
+      if (expiry <= Math.max(now, listing.expiresAt.toMillis())) {
+        throw new Error('This listing has reached its maximum lifetime of 14 days. Please post it again.');
+      }
+
+      transaction.update(listingRef, {
+        expiresAt: Timestamp.fromMillis(expiry),
+        // Keep an existing hold in place
+        status: listing.status === 'reserved' ? 'reserved' : 'active',
+        renewCount: increment(1),
+        renewedAt: serverTimestamp(),
+        updatedAt: serverTimestamp(),
+      });
+      transaction.set(newHistoryRef(listingId), historyEntry('renewed', listing.userId, {
+        details: `until ${new Date(expiry).toLocaleString()}`
+      }));
+
+      return new Date(expiry);
+    });
+
+    clearUserListingsCache(userId);
+    console.log(`✅ Listing ${listingId} renewed until ${newExpiry.toISOString()}`);
+    return newExpiry;
+  });
+};
+
+// ✅ NEW: Expiry guard - the scheduled expireListings function is the source of truth,
+// this keeps overdue boxes off the map between runs
+const toMillis = (value?: { toMillis?: () => number; seconds?: number } | null): number | null => {
+  if (!value) return null;
+  if (typeof value.toMillis === 'function') return value.toMillis();
+  // Cached listings lose their Timestamp prototype when serialized
+  if (typeof value.seconds === 'number') return value.seconds * 1000;
+  return null;
+};
+
+export const isListingOverdue = (listing: BoxListing, now: number = Date.now()): boolean => {
+  if (listing.status !== 'active' && listing.status !== 'reserved') return false;
+  const expiresAt = toMillis(listing.expiresAt);
+  return expiresAt !== null && expiresAt <= now;
+};
+
+// A hold only counts while its reservationExpiresAt is in the future
+export const isReservationActive = (listing: BoxListing, now: number = Date.now()): boolean => {
+  if (listing.status !== 'reserved') return false;
+  const reservationExpiresAt = toMillis(listing.reservationExpiresAt);
+  return reservationExpiresAt !== null && reservationExpiresAt > now;
+};
+
+// Show lapsed holds as available until the releaseReservations function catches up
+const clearLapsedReservation = (listing: BoxListing): BoxListing => {
+  if (listing.status !== 'reserved' || isReservationActive(listing)) return listing;
+
+  return {
+    ...listing,
+    status: 'active',
+    reservedBy: undefined,
+    reservedByName: undefined,
+    reservedAt: undefined,
+    reservationExpiresAt: undefined,
+  };
+};
+
+// ✅ NEW: The signed-in user's block list, kept in sync by AuthContext. Blocked users'
+// listings and comments are dropped from every feed this module serves.
+let blockedUserIds = new Set<string>();
+
+export const setBlockedUsers = (userIds: string[]) => {
+  blockedUserIds = new Set(userIds);
+};
+
+export const isBlockedUser = (userId?: string) => !!userId && blockedUserIds.has(userId);
+
+const dropBlockedUsers = <T extends { userId: string }>(items: T[]): T[] =>
+  blockedUserIds.size === 0 ? items : items.filter(item => !blockedUserIds.has(item.userId));
+
+const pendingExpiries = new Set<string>();
+
+// Only the owner may change a listing's status, so expire just the current user's boxes
+const expireOverdueListings = (listings: BoxListing[]) => {
+  const currentUserId = auth?.currentUser?.uid;
+  if (!currentUserId) return;
+
+  listings.forEach(listing => {
+    if (!listing.id || listing.userId !== currentUserId || pendingExpiries.has(listing.id)) return;
+    if (!isListingOverdue(listing)) return;
+
+    pendingExpiries.add(listing.id);
+    updateListingStatus(listing.id, 'expired')
+      .catch(error => console.warn(`Failed to expire listing ${listing.id}:`, error))
+      .finally(() => pendingExpiries.delete(listing.id!));
+  });
+};
+
+const dropOverdueListings = (listings: BoxListing[]): BoxListing[] => {
+  expireOverdueListings(listings);
+  return dropBlockedUsers(listings)
+    .filter(listing => !isListingOverdue(listing))
+    .map(clearLapsedReservation);
+};
+
+// ✅ OPTIMIZED: Enhanced caching with compression
+const compressData = (data: any): string => {
+  try {
+    return JSON.stringify(data);
+  } catch (error) {
+    console.warn('Failed to compress data:', error);
+    return '[]';
+  }
+};
+
+const decompressData = (compressed: string): any => {
+  try {
+    return JSON.parse(compressed);
+  } catch (error) {
+    console.warn('Failed to decompress data:', error);
+    return [];
+  }
+};
+
+// ✅ OPTIMIZED: Multi-level caching system
+const cacheListings = (listings: BoxListing[]) => {
+  try {
+    const cacheData = {
+      data: listings,
+      timestamp: Date.now()
+    };
+    
+    // Memory cache (fastest)
+    sessionStorage.setItem('cached_listings', compressData(cacheData));
+    
+    // Persistent cache (survives page refresh)
+    localStorage.setItem('cached_listings_persistent', compressData(cacheData));
+  } catch (error) {
+    console.warn('Failed to cache listings:', error);
+  }
+};
+
+const getCachedListings = (): BoxListing[] => {
+  try {
+    // Try memory cache first
+    let cached = sessionStorage.getItem('cached_listings');
+    if (cached) {
+      const { data, timestamp } = decompressData(cached);
+      // Use cache if less than 2 minutes old
+      if (Date.now() - timestamp < 2 * 60 * 1000) {
+        console.log('📦 Using memory cached listings');
+        return dropBlockedUsers<BoxListing>(data)
+          .filter((listing: BoxListing) => !isListingOverdue(listing))
+          .map(clearLapsedReservation);
       }
     }
     
@@ -392,7 +1258,9 @@ const getCachedListings = (): BoxListing[] => {
         console.log('📦 Using persistent cached listings');
         // Also update memory cache
         sessionStorage.setItem('cached_listings', compressData({ data, timestamp: Date.now() }));
-        return data;
+        return dropBlockedUsers<BoxListing>(data)
+          .filter((listing: BoxListing) => !isListingOverdue(listing))
+          .map(clearLapsedReservation);
       }
     }
   } catch (error) {
@@ -410,17 +1278,14 @@ export const getActiveListings = async (): Promise<BoxListing[]> => {
 
   return withRetry(async () => {
     const q = query(
-      collection(db, LISTINGS_COLLECTION),
-      where('status', '==', 'active'),
+      listingsCollection(),
+      where('status', 'in', FEED_STATUSES),
       orderBy('createdAt', 'desc'),
       limit(50)
     );
     
     const querySnapshot = await getDocs(q);
-    const listings = querySnapshot.docs.map(doc => ({
-      id: doc.id,
-      ...doc.data()
-    } as BoxListing));
+    const listings = dropOverdueListings(toListings(querySnapshot));
     
     // Cache the results
     cacheListings(listings);
@@ -441,24 +1306,41 @@ export const getListingsByCategory = async (category: string): Promise<BoxListin
 
   return withRetry(async () => {
     const q = query(
-      collection(db, LISTINGS_COLLECTION),
-      where('status', '==', 'active'),
+      listingsCollection(),
+      where('status', 'in', FEED_STATUSES),
       where('category', '==', category),
       orderBy('createdAt', 'desc'),
       limit(50)
     );
     
     const querySnapshot = await getDocs(q);
-    return querySnapshot.docs.map(doc => ({
-      id: doc.id,
-      ...doc.data()
-    } as BoxListing));
+    return dropOverdueListings(toListings(querySnapshot));
   }, 'getListingsByCategory').catch(error => {
     console.error('❌ Error fetching listings by category:', error);
     return getCachedListings().filter(listing => listing.category === category);
   });
 };
 
+const clearUserListingsCache = (userId: string) => {
+  try {
+    sessionStorage.removeItem(`user_listings_${userId}`);
+  } catch {
+    console.warn('Failed to clear cached user listings');
+  }
+};
+
+// ✅ NEW: Get a single listing by id
+export const getListing = async (listingId: string): Promise<BoxListing | null> => {
+  if (!isFirebaseConfigured()) {
+    return getCachedListings().find(listing => listing.id === listingId) || null;
+  }
+
+  return withRetry(async () => {
+    const snap = await getDoc(listingDoc(listingId));
+    return snap.data() ?? null;
+  }, 'getListing');
+};
+
 // ✅ FIXED: Get user's listings with proper userId validation and caching
 export const getUserListings = async (userId: string): Promise<BoxListing[]> => {
   if (!userId) {
@@ -490,17 +1372,20 @@ export const getUserListings = async (userId: string): Promise<BoxListing[]> =>
     console.log('📦 Fetching listings for userId:', userId);
     
     const q = query(
-      collection(db, LISTINGS_COLLECTION),
+      listingsCollection(),
       where('userId', '==', userId),
       orderBy('createdAt', 'desc'),
       limit(100)
     );
     
     const querySnapshot = await getDocs(q);
-    const listings = querySnapshot.docs.map(doc => ({
-      id: doc.id,
-      ...doc.data()
-    } as BoxListing));
+    const fetchedListings = toListings(querySnapshot);
+
+    // Show overdue boxes as expired right away while the status update lands
+    expireOverdueListings(fetchedListings);
+    const listings = fetchedListings.map(listing =>
+      isListingOverdue(listing) ? { ...listing, status: 'expired' as const } : listing
+    );
     
     // Cache the results
     try {
@@ -521,41 +1406,68 @@ export const getUserListings = async (userId: string): Promise<BoxListing[]> =>
 };
 
 // ✅ FIXED: Enhanced real-time subscription with better error handling
+// Filters shared by the live first page and the paginated feed so cursors line up
+const getFeedConstraints = (category?: string) => [
+  where('status', 'in', FEED_STATUSES),
+  ...(category && category !== 'all' ? [where('category', '==', category)] : []),
+  orderBy('createdAt', 'desc')
+];
+
+// ✅ NEW: Fetch the page of the feed after a cursor from subscribeToListings or a previous page
+export const getListingsPage = async (
+  cursor: ListingsCursor,
+  category?: string,
+  pageSize: number = LISTINGS_PAGE_SIZE
+): Promise<ListingsPage> => {
+  if (!isFirebaseConfigured()) {
+    return { listings: [], cursor: null, hasMore: false };
+  }
+
+  return withRetry(async () => {
+    const q = query(
+      listingsCollection(),
+      ...getFeedConstraints(category),
+      startAfter(cursor),
+      limit(pageSize)
+    );
+
+    const querySnapshot = await getDocs(q);
+    const listings = dropOverdueListings(toListings(querySnapshot));
+
+    console.log(`📦 Retrieved ${listings.length} more listings`);
+    return {
+      listings,
+      cursor: querySnapshot.docs[querySnapshot.docs.length - 1] || null,
+      hasMore: querySnapshot.docs.length === pageSize
+    };
+  }, 'getListingsPage');
+};
+
+// Live first page of the feed; continue past it with getListingsPage(page.cursor)
 export const subscribeToListings = (
-  callback: (listings: BoxListing[]) => void,
+  callback: (listings: BoxListing[], page: Omit<ListingsPage, 'listings'>) => void,
   category?: string
 ) => {
+  const cachedPage = { cursor: null, hasMore: false };
+
   if (!isFirebaseConfigured()) {
     console.warn('⚠️ Firebase not configured, using cached data');
-    callback(getCachedListings());
+    callback(getCachedListings(), cachedPage);
     return () => {};
   }
 
   // If in offline mode, use cached data
   if (isOfflineMode) {
     console.warn('⚠️ In offline mode, using cached data');
-    callback(getCachedListings());
+    callback(getCachedListings(), cachedPage);
     return () => {};
   }
   try {
-    let q;
-    
-    if (category && category !== 'all') {
-      q = query(
-        collection(db, LISTINGS_COLLECTION),
-        where('status', '==', 'active'),
-        where('category', '==', category),
-        orderBy('createdAt', 'desc'),
-        limit(50)
-      );
-    } else {
-      q = query(
-        collection(db, LISTINGS_COLLECTION),
-        where('status', '==', 'active'),
-        orderBy('createdAt', 'desc'),
-        limit(50)
-      );
-    }
+    const q = query(
+      listingsCollection(),
+      ...getFeedConstraints(category),
+      limit(LISTINGS_PAGE_SIZE)
+    );
 
     console.log('🔄 Subscribing to listings updates...');
     
@@ -565,18 +1477,21 @@ export const subscribeToListings = (
     
     const unsubscribe = onSnapshot(q, 
       (querySnapshot) => {
-        connectionState = 'connected';
         isOfflineMode = false;
+        if (!querySnapshot.metadata.fromCache) {
+          markSynced();
+        }
         
         if (reconnectTimeout) {
           clearTimeout(reconnectTimeout);
           reconnectTimeout = null;
         }
         
-        const listings = querySnapshot.docs.map(doc => ({
-          id: doc.id,
-          ...doc.data()
-        } as BoxListing));
+        const listings = dropOverdueListings(toListings(querySnapshot));
+        const page = {
+          cursor: querySnapshot.docs[querySnapshot.docs.length - 1] || null,
+          hasMore: querySnapshot.docs.length === LISTINGS_PAGE_SIZE
+        };
         
         // Cache the results
         cacheListings(listings);
@@ -588,7 +1503,7 @@ export const subscribeToListings = (
         
         debounceTimeout = setTimeout(() => {
           console.log(`📦 Real-time update: ${listings.length} listings`);
-          callback(listings);
+          callback(listings, page);
         }, 100);
       },
       (error) => {
@@ -598,7 +1513,7 @@ export const subscribeToListings = (
         handleConnectionError(error);
         
         // Use cached data immediately
-        callback(getCachedListings());
+        callback(getCachedListings(), cachedPage);
         
         // Handle specific error types
         if (error.code === 'permission-denied') {
@@ -615,10 +1530,13 @@ export const subscribeToListings = (
             reconnectTimeout = setTimeout(async () => {
               try {
                 console.log('🔄 Attempting to reconnect to Firestore...');
+                setConnectionState('reconnecting');
                 await disableNetwork(db);
                 await new Promise(resolve => setTimeout(resolve, 1000));
                 await enableNetwork(db);
                 console.log('✅ Firestore reconnection successful');
+                setConnectionState('connected');
+                replayOutbox();
                 
                 // Retry subscription
                 setTimeout(() => {
@@ -651,7 +1569,7 @@ export const subscribeToListings = (
     };
   } catch (error) {
     console.error('❌ Error subscribing to listings:', error);
-    callback(getCachedListings());
+    callback(getCachedListings(), cachedPage);
     return () => {};
   }
 };
@@ -659,27 +1577,47 @@ export const subscribeToListings = (
 // Update listing status
 export const updateListingStatus = async (
   listingId: string, 
-  status: 'active' | 'taken' | 'expired'
+  status: BoxListing['status']
 ): Promise<void> => {
   if (!isFirebaseConfigured()) {
     throw new Error('Firebase is not configured');
   }
 
-  return queueOperation(async () => {
-    const listingRef = doc(db, LISTINGS_COLLECTION, listingId);
-    await updateDoc(listingRef, {
+  return queueDurableWrite(
+    'updateListingStatus',
+    `updateListingStatus_${listingId}`,
+    `Mark listing ${status}`,
+    { listingId, status }
+  );
+};
+
+// Outbox handler for updateListingStatus
+const writeListingStatus = async (listingId: string, status: BoxListing['status'], writeId: string): Promise<void> => {
+  const event: ListingHistoryEvent = status === 'taken' || status === 'expired' ? status : 'status_changed';
+
+  // Only owners change the status directly, so they are the listing's owner
+  await runTransaction(db, async (transaction) => {
+    if (await isAlreadyWritten(transaction, listingId, writeId)) return;
+
+    transaction.update(doc(db, LISTINGS_COLLECTION, listingId), {
       status,
       updatedAt: serverTimestamp(),
     });
-    console.log(`✅ Listing ${listingId} status updated to ${status}`);
+    transaction.set(outboxHistoryRef(listingId, writeId), historyEntry(event, auth?.currentUser?.uid || '', {
+      ...(event === 'status_changed' && { details: `now ${status}` })
+    }));
   });
+  clearUserListingsCache(auth?.currentUser?.uid || '');
+  console.log(`✅ Listing ${listingId} status updated to ${status}`);
 };
 
-// ✅ OPTIMIZED: Mark listing as found with batched operations
-export const markListingAsFound = async (
+// ✅ NEW: Pickup handshake. The taker claims a box, then the giver confirms it (or, for
+// spotted boxes with no giver, another user who isn't the claimer or the spotter).
+// itemsTaken/itemsGiven are only credited by the creditPickup function after confirmation.
+export const claimListing = async (
   listingId: string,
   userId: string,
-  markAsSpotted: boolean = true
+  username: string
 ): Promise<void> => {
   if (!isFirebaseConfigured()) {
     throw new Error('Firebase is not configured');
@@ -690,194 +1628,1452 @@ export const markListingAsFound = async (
   }
 
   return queueOperation(async () => {
-    console.log(`[📦 Firestore] Marking listing ${listingId} as found by user ${userId}`);
-    
-    // ✅ OPTIMIZED: Use batch write for atomic operations
-    const batch = writeBatch(db);
-    
-    // Update the listing
+    console.log(`[📦 Firestore] Claiming listing ${listingId} for user ${userId}`);
     const listingRef = doc(db, LISTINGS_COLLECTION, listingId);
-    const updateData: any = {
-      status: 'taken',
-      takenBy: userId,
-      updatedAt: serverTimestamp(),
-    };
-    
-    if (markAsSpotted) {
-      updateData.isSpotted = true;
-    }
-    
-    batch.update(listingRef, updateData);
-    
-    // Update user's itemsTaken count
-    const userRef = doc(db, USERS_COLLECTION, userId);
-    batch.update(userRef, {
-      itemsTaken: increment(1),
-      lastActive: serverTimestamp()
+
+    await runTransaction(db, async (transaction) => {
+      const snap = await transaction.get(listingRef.withConverter(listingConverter));
+      const listing = snap.data();
+      if (!listing) {
+        throw new Error('Listing not found');
+      }
+      if (listing.userId === userId) {
+        throw new Error('You cannot claim your own listing');
+      }
+      // Multi-item boxes go item by item, and are taken with their last item
+      if (listing.items && listing.items.length > 0) {
+        throw new Error('Take the items you want one at a time instead');
+      }
+      // Respect someone else's live "I'm on my way" hold
+      if (isReservationActive(listing) && listing.reservedBy !== userId) {
+        throw new Error(`${listing.reservedByName || 'Someone'} is already on their way to this box`);
+      }
+      if ((listing.status !== 'active' && listing.status !== 'reserved') || isListingOverdue(listing)) {
+        throw new Error('This listing is no longer available');
+      }
+
+      transaction.update(listingRef, {
+        status: 'claimed',
+        claimedBy: userId,
+        claimedByName: username,
+        claimedAt: serverTimestamp(),
+        reservedBy: deleteField(),
+        reservedByName: deleteField(),
+        reservedAt: deleteField(),
+        reservationExpiresAt: deleteField(),
+        updatedAt: serverTimestamp(),
+      });
+      transaction.set(newHistoryRef(listingId), historyEntry('claimed', listing.userId, { actorName: username }));
     });
-    
-    // Commit batch
-    await batch.commit();
-    
-    console.log(`[🎉 Firestore] Successfully marked listing as found and updated user stats`);
+
+    console.log(`✅ Listing ${listingId} claimed, waiting for confirmation`);
   });
 };
 
-// ✅ OPTIMIZED: Enhanced rating function with batching
-export const addRatingToListing = async (
-  listingId: string,
-  ratingValue: number,
-  userId: string,
-  comment?: string
-): Promise<void> => {
+// Who may confirm a claim: the giver, or for spotted boxes anyone independent of it
+export const canConfirmPickup = (listing: BoxListing, userId: string): boolean => {
+  if (listing.status !== 'claimed' || !listing.claimedBy || listing.claimedBy === userId) return false;
+  return listing.isSpotted ? listing.userId !== userId : listing.userId === userId;
+};
+
+export const confirmPickup = async (listingId: string, userId: string): Promise<void> => {
   if (!isFirebaseConfigured()) {
     throw new Error('Firebase is not configured');
   }
 
-  if (!listingId || !userId || !ratingValue) {
-    throw new Error('Missing required parameters for rating');
-  }
-
-  if (ratingValue < 1 || ratingValue > 5) {
-    throw new Error('Rating must be between 1 and 5');
+  if (!listingId || !userId) {
+    throw new Error('Missing required parameters: listingId and userId');
   }
 
   return queueOperation(async () => {
-    const ref = doc(db, LISTINGS_COLLECTION, listingId);
-    const snap = await getDoc(ref);
-    
-    if (!snap.exists()) {
-      throw new Error('Listing not found');
-    }
-
-    const data = snap.data();
-    const ratings = data.ratings || [];
+    const listingRef = doc(db, LISTINGS_COLLECTION, listingId);
 
-    // Remove existing rating from this user if any
-    const filteredRatings = ratings.filter((r: any) => r.userId !== userId);
-    
-    // Add new rating
-    const newRating = { userId, rating: ratingValue, ...(comment && { comment }) };
-    const newRatings = [...filteredRatings, newRating];
+    const listing = await runTransaction(db, async (transaction) => {
+      const snap = await transaction.get(listingRef.withConverter(listingConverter));
+      const current = snap.data();
+      if (!current) {
+        throw new Error('Listing not found');
+      }
+      if (current.status !== 'claimed') {
+        throw new Error('There is no pickup waiting to be confirmed');
+      }
+      if (current.items && current.items.length > 0) {
+        throw new Error('Items in this box are taken one at a time');
+      }
+      if (!canConfirmPickup(current, userId)) {
+        throw new Error(current.isSpotted
+          ? 'Someone other than the claimer and the spotter needs to confirm this pickup'
+          : 'Only the giver can confirm this pickup');
+      }
 
-    // Compute new average
-    const avg = newRatings.reduce((sum, r) => sum + (r.rating || 0), 0) / newRatings.length;
+      transaction.update(listingRef, {
+        status: 'taken',
+        takenBy: current.claimedBy,
+        confirmedBy: userId,
+        confirmedAt: serverTimestamp(),
+        updatedAt: serverTimestamp(),
+      });
+      transaction.set(newHistoryRef(listingId), historyEntry('taken', current.userId, {
+        details: `picked up by ${current.claimedByName || current.claimedBy}`
+      }));
 
-    await updateDoc(ref, {
-      ratings: newRatings,
-      rating: parseFloat(avg.toFixed(2)),
-      updatedAt: serverTimestamp()
+      return current;
     });
-    
-    console.log(`✅ Rating added to listing ${listingId}: ${ratingValue}/5 (new avg: ${avg.toFixed(2)})`);
+
+    clearUserListingsCache(listing.userId);
+    console.log(`✅ Pickup of listing ${listingId} confirmed by ${userId}`);
   });
 };
 
-// ✅ OPTIMIZED: Add comment with queuing
-export const addCommentToListing = async (
-  listingId: string,
-  userId: string,
-  username: string,
-  text: string,
-  userAvatar?: string
-): Promise<void> => {
+// The claimer can take back a claim, and the giver can decline one that didn't happen
+export const declineClaim = async (listingId: string, userId: string): Promise<void> => {
   if (!isFirebaseConfigured()) {
     throw new Error('Firebase is not configured');
   }
 
-  if (!listingId || !userId || !username || !text.trim()) {
-    throw new Error('Missing required parameters for comment');
-  }
-
-  if (text.trim().length > 500) {
-    throw new Error('Comment must be 500 characters or less');
+  if (!listingId || !userId) {
+    throw new Error('Missing required parameters: listingId and userId');
   }
 
   return queueOperation(async () => {
-    const ref = doc(db, LISTINGS_COLLECTION, listingId);
-    const snap = await getDoc(ref);
-    
-    if (!snap.exists()) {
-      throw new Error('Listing not found');
-    }
+    const listingRef = doc(db, LISTINGS_COLLECTION, listingId);
 
-    const newComment: Comment = {
-      userId,
-      username,
-      text: text.trim(),
-      createdAt: serverTimestamp() as Timestamp,
-      ...(userAvatar && { userAvatar })
-    };
+    const listing = await runTransaction(db, async (transaction) => {
+      const snap = await transaction.get(listingRef.withConverter(listingConverter));
+      const current = snap.data();
+      if (!current) {
+        throw new Error('Listing not found');
+      }
+      if (current.status !== 'claimed') {
+        throw new Error('There is no pickup waiting to be confirmed');
+      }
+      if (current.claimedBy !== userId && (current.isSpotted || current.userId !== userId)) {
+        throw new Error('Only the claimer or the giver can decline this claim');
+      }
+
+      transaction.update(listingRef, {
+        status: 'active',
+        claimedBy: deleteField(),
+        claimedByName: deleteField(),
+        claimedAt: deleteField(),
+        updatedAt: serverTimestamp(),
+      });
+      transaction.set(newHistoryRef(listingId), historyEntry('claim_declined', current.userId, {
+        details: `claim by ${current.claimedByName || current.claimedBy}`
+      }));
 
-    await updateDoc(ref, {
-      comments: arrayUnion(newComment),
-      updatedAt: serverTimestamp()
+      return current;
     });
-    
-    console.log(`✅ Comment added to listing ${listingId} by ${username}`);
+
+    clearUserListingsCache(listing.userId);
+    console.log(`✅ Claim on listing ${listingId} declined`);
   });
 };
 
-// Delete listing
-export const deleteListing = async (listingId: string): Promise<void> => {
+// ✅ NEW: Items still up for grabs in a multi-item box (empty for single-item listings)
+export const getRemainingItems = (listing: BoxListing): ListingItem[] =>
+  (listing.items || []).filter(item => !item.taken);
+
+// Take one item out of a multi-item box. Unlike claimListing there is no confirmation step,
+// so item pickups don't count towards stats; the listing goes to 'taken' with the last item.
+export const claimListingItem = async (
+  listingId: string,
+  itemId: string,
+  userId: string,
+  username: string
+): Promise<void> => {
   if (!isFirebaseConfigured()) {
     throw new Error('Firebase is not configured');
   }
 
+  if (!listingId || !itemId || !userId) {
+    throw new Error('Missing required parameters: listingId, itemId and userId');
+  }
+
   return queueOperation(async () => {
-    await deleteDoc(doc(db, LISTINGS_COLLECTION, listingId));
-    console.log(`✅ Listing ${listingId} deleted successfully`);
-  });
-};
+    const listingRef = doc(db, LISTINGS_COLLECTION, listingId);
 
-// ✅ OPTIMIZED: Enhanced search with caching
-export const searchListings = async (searchTerm: string): Promise<BoxListing[]> => {
-  // Check cache first
-  const cacheKey = `search_${searchTerm.toLowerCase()}`;
-  try {
-    const cached = sessionStorage.getItem(cacheKey);
-    if (cached) {
-      const { data, timestamp } = JSON.parse(cached);
+    const allTaken = await runTransaction(db, async (transaction) => {
+      const snap = await transaction.get(listingRef.withConverter(listingConverter));
+      const listing = snap.data();
+      if (!listing) {
+        throw new Error('Listing not found');
+      }
+      if (listing.userId === userId) {
+        throw new Error('You cannot take items from your own listing');
+      }
+      if (isReservationActive(listing) && listing.reservedBy !== userId) {
+        throw new Error(`${listing.reservedByName || 'Someone'} is already on their way to this box`);
+      }
+      if ((listing.status !== 'active' && listing.status !== 'reserved') || isListingOverdue(listing)) {
+        throw new Error('This listing is no longer available');
+      }
+
+      const item = listing.items?.find(candidate => candidate.id === itemId);
+      if (!item) {
+        throw new Error('This item is no longer in the box');
+      }
+      if (item.taken) {
+        throw new Error(`${item.takenByName || 'Someone'} already took the ${item.name}`);
+      }
+
+      const items = listing.items!.map(candidate => candidate.id === itemId
+        ? { ...candidate, taken: true, takenBy: userId, takenByName: username, takenAt: Timestamp.now() }
+        : candidate
+      );
+      const lastItem = items.every(candidate => candidate.taken);
+
+      transaction.update(listingRef, {
+        items,
+        ...(lastItem && {
+          status: 'taken',
+          reservedBy: deleteField(),
+          reservedByName: deleteField(),
+          reservedAt: deleteField(),
+          reservationExpiresAt: deleteField(),
+        }),
+        updatedAt: serverTimestamp(),
+      });
+      transaction.set(newHistoryRef(listingId), historyEntry('item_taken', listing.userId, {
+        actorName: username,
+        details: item.name,
+      }));
+      if (lastItem) {
+        transaction.set(newHistoryRef(listingId), historyEntry('taken', listing.userId, {
+          actorName: username,
+          details: 'every item is gone',
+        }));
+      }
+
+      return lastItem;
+    });
+
+    console.log(`✅ Item ${itemId} taken from listing ${listingId}${allTaken ? ', box is now empty' : ''}`);
+  });
+};
+
+// ✅ NEW: "I'm on my way" hold - one person at a time, guarded by a transaction so two
+// people racing to the same box can't both reserve it
+export const reserveListing = async (
+  listingId: string,
+  userId: string,
+  username: string
+): Promise<Date> => {
+  if (!isFirebaseConfigured()) {
+    throw new Error('Firebase is not configured');
+  }
+
+  if (!listingId || !userId) {
+    throw new Error('Missing required parameters: listingId and userId');
+  }
+
+  return queueOperation(async () => {
+    const listingRef = doc(db, LISTINGS_COLLECTION, listingId);
+
+    const holdExpiry = await runTransaction(db, async (transaction) => {
+      const snap = await transaction.get(listingRef.withConverter(listingConverter));
+      const listing = snap.data();
+      if (!listing) {
+        throw new Error('Listing not found');
+      }
+      if (listing.userId === userId) {
+        throw new Error('You cannot reserve your own listing');
+      }
+      if (isReservationActive(listing)) {
+        throw new Error(listing.reservedBy === userId
+          ? 'You already have this box on hold'
+          : `${listing.reservedByName || 'Someone'} is already on their way to this box`);
+      }
+      if ((listing.status !== 'active' && listing.status !== 'reserved') || isListingOverdue(listing)) {
+        throw new Error('This listing is no longer available');
+      }
+
+      const expiry = Date.now() + RESERVATION_HOLD_MS;
+      transaction.update(listingRef, {
+        status: 'reserved',
+        reservedBy: userId,
+        reservedByName: username,
+        reservedAt: serverTimestamp(),
+        reservationExpiresAt: Timestamp.fromMillis(expiry),
+        updatedAt: serverTimestamp(),
+      });
+      transaction.set(newHistoryRef(listingId), historyEntry('reserved', listing.userId, { actorName: username }));
+
+      return new Date(expiry);
+    });
+
+    console.log(`✅ Listing ${listingId} reserved by ${userId} until ${holdExpiry.toISOString()}`);
+    return holdExpiry;
+  });
+};
+
+// ✅ NEW: Drop a hold - either the person holding it or the listing owner
+export const releaseReservation = async (listingId: string, userId: string): Promise<void> => {
+  if (!isFirebaseConfigured()) {
+    throw new Error('Firebase is not configured');
+  }
+
+  if (!listingId || !userId) {
+    throw new Error('Missing required parameters: listingId and userId');
+  }
+
+  return queueOperation(async () => {
+    const listingRef = doc(db, LISTINGS_COLLECTION, listingId);
+
+    await runTransaction(db, async (transaction) => {
+      const snap = await transaction.get(listingRef.withConverter(listingConverter));
+      const listing = snap.data();
+      if (!listing) {
+        throw new Error('Listing not found');
+      }
+      if (listing.status !== 'reserved') return;
+      if (listing.reservedBy !== userId && listing.userId !== userId) {
+        throw new Error('Only the person holding this box can release it');
+      }
+
+      transaction.update(listingRef, {
+        status: 'active',
+        reservedBy: deleteField(),
+        reservedByName: deleteField(),
+        reservedAt: deleteField(),
+        reservationExpiresAt: deleteField(),
+        updatedAt: serverTimestamp(),
+      });
+      transaction.set(newHistoryRef(listingId), historyEntry('released', listing.userId, {
+        details: `hold by ${listing.reservedByName || listing.reservedBy}`
+      }));
+    });
+
+    console.log(`✅ Reservation on listing ${listingId} released`);
+  });
+};
+
+// ✅ NEW: One rating doc per rater in listings/{listingId}/ratings/{userId}, with the
+// listing's average kept in a transaction so concurrent raters can't overwrite each other.
+// The giver's profile rating is recomputed server-side by the onRatingWritten function.
+export const addRatingToListing = async (
+  listingId: string,
+  ratingValue: number,
+  userId: string,
+  comment?: string
+): Promise<void> => {
+  if (!isFirebaseConfigured()) {
+    throw new Error('Firebase is not configured');
+  }
+
+  if (!listingId || !userId || !ratingValue) {
+    throw new Error('Missing required parameters for rating');
+  }
+
+  if (!Number.isInteger(ratingValue) || ratingValue < 1 || ratingValue > 5) {
+    throw new Error('Rating must be a whole number between 1 and 5');
+  }
+
+  return queueOperation(async () => {
+    const listingRef = doc(db, LISTINGS_COLLECTION, listingId);
+    const ratingRef = doc(db, LISTINGS_COLLECTION, listingId, RATINGS_SUBCOLLECTION, userId);
+
+    const avg = await runTransaction(db, async (transaction) => {
+      const listingSnap = await transaction.get(listingRef.withConverter(listingConverter));
+      const listing = listingSnap.data();
+      if (!listing) {
+        throw new Error('Listing not found');
+      }
+      if (listing.userId === userId) {
+        throw new Error('You cannot rate your own listing');
+      }
+
+      const ratingSnap = await transaction.get(ratingRef);
+      const previousRating = ratingSnap.exists() ? (ratingSnap.data() as Rating).rating : null;
+
+      // Replace this rater's previous value instead of counting it twice
+      const ratingSum = (listing.ratingSum || 0) - (previousRating || 0) + ratingValue;
+      const ratingCount = (listing.ratingCount || 0) + (previousRating === null ? 1 : 0);
+      // 2 decimals, like roundRating in functions/src/ratings.ts
+      const newAvg = parseFloat((ratingSum / ratingCount).toFixed(2));
+
+      transaction.set(ratingRef, {
+        userId,
+        listingId,
+        listingOwnerId: listing.userId,
+        rating: ratingValue,
+        ...(comment && { comment }),
+        createdAt: ratingSnap.exists() ? ratingSnap.data().createdAt : serverTimestamp(),
+        updatedAt: serverTimestamp()
+      });
+
+      transaction.update(listingRef, {
+        rating: newAvg,
+        ratingSum,
+        ratingCount,
+        updatedAt: serverTimestamp()
+      });
+
+      return newAvg;
+    });
+    
+    console.log(`✅ Rating added to listing ${listingId}: ${ratingValue}/5 (new avg: ${avg.toFixed(2)})`);
+  });
+};
+
+// ✅ NEW: Comments live in listings/{listingId}/comments so listing reads stay small
+const getCommentsCollection = (listingId: string) =>
+  collection(db, LISTINGS_COLLECTION, listingId, COMMENTS_SUBCOLLECTION);
+
+const toComment = (doc: QueryDocumentSnapshot<DocumentData>): Comment => ({
+  id: doc.id,
+  // Pending server timestamps read as null until the write is acknowledged
+  ...doc.data({ serverTimestamps: 'estimate' })
+} as Comment);
+
+const validateCommentText = (text: string) => {
+  if (!text.trim()) {
+    throw new Error('Comment cannot be empty');
+  }
+
+  if (text.trim().length > MAX_COMMENT_LENGTH) {
+    throw new Error(`Comment must be ${MAX_COMMENT_LENGTH} characters or less`);
+  }
+};
+
+// ✅ OPTIMIZED: Add comment with queuing
+export const addCommentToListing = async (
+  listingId: string,
+  userId: string,
+  username: string,
+  text: string,
+  userAvatar?: string
+): Promise<string> => {
+  if (!isFirebaseConfigured()) {
+    throw new Error('Firebase is not configured');
+  }
+
+  if (!listingId || !userId || !username || !text.trim()) {
+    throw new Error('Missing required parameters for comment');
+  }
+
+  validateCommentText(text);
+
+  const commentId = doc(getCommentsCollection(listingId)).id;
+  await queueDurableWrite('addComment', `addComment_${commentId}`, 'Post comment', {
+    listingId,
+    commentId,
+    userId,
+    username,
+    text: text.trim(),
+    ...(userAvatar && { userAvatar })
+  });
+
+  return commentId;
+};
+
+// Outbox handler for addCommentToListing
+const writeComment = async ({ listingId, commentId, ...comment }: OutboxPayloads['addComment']): Promise<void> => {
+  const commentRef = doc(getCommentsCollection(listingId), commentId);
+
+  await runTransaction(db, async (transaction) => {
+    const listingSnap = await transaction.get(doc(db, LISTINGS_COLLECTION, listingId));
+    if (!listingSnap.exists()) {
+      throw new Error('Listing not found');
+    }
+
+    // Posted by an earlier attempt - setting it again would overwrite any edit since
+    if ((await transaction.get(commentRef)).exists()) return;
+
+    transaction.set(commentRef, {
+      ...comment,
+      createdAt: serverTimestamp()
+    });
+  });
+
+  console.log(`✅ Comment added to listing ${listingId} by ${comment.username}`);
+};
+
+// ✅ NEW: Edit a comment's text (authors only, enforced by security rules)
+export const updateComment = async (
+  listingId: string,
+  commentId: string,
+  text: string
+): Promise<void> => {
+  if (!isFirebaseConfigured()) {
+    throw new Error('Firebase is not configured');
+  }
+
+  if (!listingId || !commentId) {
+    throw new Error('Missing required parameters for comment update');
+  }
+
+  validateCommentText(text);
+
+  return queueOperation(async () => {
+    await updateDoc(doc(getCommentsCollection(listingId), commentId), {
+      text: text.trim(),
+      editedAt: serverTimestamp()
+    });
+    console.log(`✅ Comment ${commentId} on listing ${listingId} updated`);
+  });
+};
+
+// ✅ NEW: Delete a comment (author or listing owner, enforced by security rules)
+export const deleteComment = async (listingId: string, commentId: string): Promise<void> => {
+  if (!isFirebaseConfigured()) {
+    throw new Error('Firebase is not configured');
+  }
+
+  if (!listingId || !commentId) {
+    throw new Error('Missing required parameters for comment deletion');
+  }
+
+  return queueOperation(async () => {
+    await deleteDoc(doc(getCommentsCollection(listingId), commentId));
+    console.log(`✅ Comment ${commentId} deleted from listing ${listingId}`);
+  });
+};
+
+// ✅ NEW: Real-time subscription to the newest page of comments on a listing
+export const subscribeToComments = (
+  listingId: string,
+  callback: (page: CommentsPage) => void,
+  pageSize: number = COMMENTS_PAGE_SIZE
+) => {
+  if (!isFirebaseConfigured() || !listingId) {
+    callback({ comments: [], cursor: null, hasMore: false });
+    return () => {};
+  }
+
+  const q = query(
+    getCommentsCollection(listingId),
+    orderBy('createdAt', 'desc'),
+    limit(pageSize)
+  );
+
+  return onSnapshot(q,
+    (querySnapshot) => {
+      callback({
+        comments: dropBlockedUsers(querySnapshot.docs.map(toComment)),
+        cursor: querySnapshot.docs[querySnapshot.docs.length - 1] || null,
+        hasMore: querySnapshot.docs.length === pageSize
+      });
+    },
+    (error) => {
+      console.error(`❌ Error in comments subscription for listing ${listingId}:`, error);
+      handleConnectionError(error);
+    }
+  );
+};
+
+// ✅ NEW: Direct messages. One conversation per listing and taker, keyed
+// `${listingId}_${takerId}`, with messages in conversations/{id}/messages
+const getMessagesCollection = (conversationId: string) =>
+  collection(db, CONVERSATIONS_COLLECTION, conversationId, MESSAGES_SUBCOLLECTION);
+
+export const getConversationId = (listingId: string, takerId: string) => `${listingId}_${takerId}`;
+
+// Open the taker's conversation about a listing, creating it on first contact
+export const getOrCreateConversation = async (
+  listing: BoxListing,
+  takerId: string,
+  takerName: string
+): Promise<string> => {
+  if (!isFirebaseConfigured()) {
+    throw new Error('Firebase is not configured');
+  }
+
+  if (!listing.id || !takerId) {
+    throw new Error('Missing required parameters: listing and takerId');
+  }
+
+  if (listing.userId === takerId) {
+    throw new Error('You cannot message yourself about your own listing');
+  }
+
+  return queueOperation(async () => {
+    const conversationId = getConversationId(listing.id!, takerId);
+    const conversationRef = doc(db, CONVERSATIONS_COLLECTION, conversationId);
+
+    await runTransaction(db, async (transaction) => {
+      const snap = await transaction.get(conversationRef);
+      if (snap.exists()) return;
+
+      transaction.set(conversationRef, {
+        listingId: listing.id,
+        listingTitle: listing.title,
+        ...(listing.images[0] && { listingImage: listing.images[0] }),
+        ownerId: listing.userId,
+        takerId,
+        participants: [listing.userId, takerId],
+        participantNames: {
+          [listing.userId]: listing.username,
+          [takerId]: takerName,
+        },
+        unreadCounts: {
+          [listing.userId]: 0,
+          [takerId]: 0,
+        },
+        createdAt: serverTimestamp(),
+        updatedAt: serverTimestamp(),
+      });
+      console.log(`✅ Conversation ${conversationId} created`);
+    });
+
+    return conversationId;
+  });
+};
+
+export const getConversation = async (conversationId: string): Promise<Conversation | null> => {
+  if (!isFirebaseConfigured()) {
+    return null;
+  }
+
+  return withRetry(async () => {
+    const snap = await getDoc(doc(db, CONVERSATIONS_COLLECTION, conversationId));
+    return snap.exists() ? { id: snap.id, ...snap.data() } as Conversation : null;
+  }, 'getConversation');
+};
+
+// Message doc and the conversation summary are written together so the inbox and
+// unread badge never disagree with the thread
+export const sendMessage = async (
+  conversationId: string,
+  senderId: string,
+  senderName: string,
+  text: string
+): Promise<string> => {
+  if (!isFirebaseConfigured()) {
+    throw new Error('Firebase is not configured');
+  }
+
+  if (!conversationId || !senderId || !text.trim()) {
+    throw new Error('Missing required parameters for message');
+  }
+
+  if (text.trim().length > MAX_MESSAGE_LENGTH) {
+    throw new Error(`Message must be ${MAX_MESSAGE_LENGTH} characters or less`);
+  }
+
+  return queueOperation(async () => {
+    const conversationRef = doc(db, CONVERSATIONS_COLLECTION, conversationId);
+    const messageRef = doc(getMessagesCollection(conversationId));
+
+    await runTransaction(db, async (transaction) => {
+      const snap = await transaction.get(conversationRef);
+      if (!snap.exists()) {
+        throw new Error('Conversation not found');
+      }
+
+      const conversation = snap.data() as Conversation;
+      if (!conversation.participants.includes(senderId)) {
+        throw new Error('You are not part of this conversation');
+      }
+
+      const recipientId = conversation.participants.find(id => id !== senderId)!;
+
+      transaction.set(messageRef, {
+        senderId,
+        senderName,
+        text: text.trim(),
+        createdAt: serverTimestamp(),
+      });
+      transaction.update(conversationRef, {
+        lastMessage: text.trim().slice(0, 100),
+        lastSenderId: senderId,
+        lastMessageAt: serverTimestamp(),
+        [`unreadCounts.${recipientId}`]: increment(1),
+        updatedAt: serverTimestamp(),
+      });
+    });
+
+    return messageRef.id;
+  });
+};
+
+export const markConversationRead = async (conversationId: string, userId: string): Promise<void> => {
+  if (!isFirebaseConfigured()) {
+    return;
+  }
+
+  return queueOperation(async () => {
+    await updateDoc(doc(db, CONVERSATIONS_COLLECTION, conversationId), {
+      [`unreadCounts.${userId}`]: 0,
+    });
+  });
+};
+
+// Inbox, most recently active first
+export const subscribeToConversations = (
+  userId: string,
+  callback: (conversations: Conversation[]) => void
+) => {
+  if (!isFirebaseConfigured() || !userId) {
+    callback([]);
+    return () => {};
+  }
+
+  const q = query(
+    collection(db, CONVERSATIONS_COLLECTION),
+    where('participants', 'array-contains', userId),
+    orderBy('updatedAt', 'desc')
+  );
+
+  return onSnapshot(q,
+    (querySnapshot) => {
+      callback(querySnapshot.docs.map(doc => ({
+        id: doc.id,
+        ...doc.data({ serverTimestamps: 'estimate' })
+      } as Conversation)));
+    },
+    (error) => {
+      console.error(`❌ Error in conversations subscription for user ${userId}:`, error);
+      handleConnectionError(error);
+    }
+  );
+};
+
+// Total unread messages across the inbox, for the Messages tab badge
+export const subscribeToUnreadCount = (userId: string, callback: (count: number) => void) =>
+  subscribeToConversations(userId, (conversations) => {
+    callback(conversations.reduce((total, conversation) =>
+      total + (conversation.unreadCounts?.[userId] || 0), 0));
+  });
+
+// Newest pageSize messages, returned oldest first for display
+export const subscribeToMessages = (
+  conversationId: string,
+  callback: (page: MessagesPage) => void,
+  pageSize: number = MESSAGES_PAGE_SIZE
+) => {
+  if (!isFirebaseConfigured() || !conversationId) {
+    callback({ messages: [], hasMore: false });
+    return () => {};
+  }
+
+  const q = query(
+    getMessagesCollection(conversationId),
+    orderBy('createdAt', 'desc'),
+    limit(pageSize)
+  );
+
+  return onSnapshot(q,
+    (querySnapshot) => {
+      callback({
+        messages: querySnapshot.docs.map(doc => ({
+          id: doc.id,
+          ...doc.data({ serverTimestamps: 'estimate' })
+        } as Message)).reverse(),
+        hasMore: querySnapshot.docs.length === pageSize
+      });
+    },
+    (error) => {
+      console.error(`❌ Error in messages subscription for conversation ${conversationId}:`, error);
+      handleConnectionError(error);
+    }
+  );
+};
+
+// ✅ NEW: Saved searches live in users/{uid}/savedSearches. New listings are matched
+// against them server-side, which writes entries to users/{uid}/notifications.
+const getSavedSearchesCollection = (userId: string) =>
+  collection(db, USERS_COLLECTION, userId, SAVED_SEARCHES_SUBCOLLECTION);
+
+const getNotificationsCollection = (userId: string) =>
+  collection(db, USERS_COLLECTION, userId, NOTIFICATIONS_SUBCOLLECTION);
+
+export const saveSearch = async (userId: string, input: SavedSearchInput): Promise<string> => {
+  if (!isFirebaseConfigured()) {
+    throw new Error('Firebase is not configured');
+  }
+
+  if (!userId) {
+    throw new Error('Missing userId');
+  }
+
+  const termTokens = tokenize(input.term).slice(0, MAX_QUERY_TOKENS);
+  if (input.term.trim() && termTokens.length === 0) {
+    throw new Error('Try a more specific search term');
+  }
+
+  if (!(input.radiusKm > 0) || input.radiusKm > MAX_SAVED_SEARCH_RADIUS_KM) {
+    throw new Error(`Radius must be between 0 and ${MAX_SAVED_SEARCH_RADIUS_KM} km`);
+  }
+
+  return queueOperation(async () => {
+    const existing = await getDocs(query(getSavedSearchesCollection(userId), limit(MAX_SAVED_SEARCHES)));
+    if (existing.size >= MAX_SAVED_SEARCHES) {
+      throw new Error(`You can save up to ${MAX_SAVED_SEARCHES} searches`);
+    }
+
+    const category = input.category || 'all';
+    const searchRef = doc(getSavedSearchesCollection(userId));
+    await setDoc(searchRef, {
+      userId,
+      name: input.name?.trim() || input.term.trim() || (category === 'all' ? 'Any box' : category),
+      term: input.term.trim(),
+      termTokens,
+      category,
+      center: input.center,
+      radiusKm: input.radiusKm,
+      geohashes: getGeohashesForRadius(input.center.lat, input.center.lng, input.radiusKm),
+      createdAt: serverTimestamp(),
+    });
+
+    console.log(`✅ Saved search ${searchRef.id} for user ${userId}`);
+    return searchRef.id;
+  });
+};
+
+export const getSavedSearches = async (userId: string): Promise<SavedSearch[]> => {
+  if (!isFirebaseConfigured() || !userId) {
+    return [];
+  }
+
+  return withRetry(async () => {
+    const querySnapshot = await getDocs(query(
+      getSavedSearchesCollection(userId),
+      orderBy('createdAt', 'desc')
+    ));
+    return querySnapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as SavedSearch));
+  }, 'getSavedSearches');
+};
+
+export const deleteSavedSearch = async (userId: string, searchId: string): Promise<void> => {
+  if (!isFirebaseConfigured()) {
+    throw new Error('Firebase is not configured');
+  }
+
+  return queueOperation(async () => {
+    await deleteDoc(doc(getSavedSearchesCollection(userId), searchId));
+    console.log(`✅ Saved search ${searchId} deleted`);
+  });
+};
+
+export const subscribeToNotifications = (
+  userId: string,
+  callback: (notifications: AppNotification[]) => void,
+  pageSize: number = NOTIFICATIONS_PAGE_SIZE
+) => {
+  if (!isFirebaseConfigured() || !userId) {
+    callback([]);
+    return () => {};
+  }
+
+  const q = query(
+    getNotificationsCollection(userId),
+    orderBy('createdAt', 'desc'),
+    limit(pageSize)
+  );
+
+  return onSnapshot(q,
+    (querySnapshot) => {
+      callback(querySnapshot.docs.map(doc => ({
+        id: doc.id,
+        ...doc.data({ serverTimestamps: 'estimate' })
+      } as AppNotification)));
+    },
+    (error) => {
+      console.error(`❌ Error in notifications subscription for user ${userId}:`, error);
+      handleConnectionError(error);
+    }
+  );
+};
+
+export const subscribeToUnreadNotificationCount = (userId: string, callback: (count: number) => void) => {
+  if (!isFirebaseConfigured() || !userId) {
+    callback(0);
+    return () => {};
+  }
+
+  return onSnapshot(query(getNotificationsCollection(userId), where('read', '==', false)),
+    (querySnapshot) => callback(querySnapshot.size),
+    (error) => {
+      console.error(`❌ Error in unread notifications subscription for user ${userId}:`, error);
+      handleConnectionError(error);
+    }
+  );
+};
+
+export const markNotificationRead = async (userId: string, notificationId: string): Promise<void> => {
+  if (!isFirebaseConfigured()) {
+    return;
+  }
+
+  return queueOperation(async () => {
+    await updateDoc(doc(getNotificationsCollection(userId), notificationId), { read: true });
+  });
+};
+
+export const markAllNotificationsRead = async (userId: string): Promise<void> => {
+  if (!isFirebaseConfigured()) {
+    return;
+  }
+
+  return queueOperation(async () => {
+    const unread = await getDocs(query(getNotificationsCollection(userId), where('read', '==', false)));
+    if (unread.empty) return;
+
+    const batch = writeBatch(db);
+    unread.docs.forEach(doc => batch.update(doc.ref, { read: true }));
+    await batch.commit();
+  });
+};
+
+// ✅ NEW: Favorites / watchlist, one doc per listing keyed by listing id
+const getFavoritesCollection = (userId: string) =>
+  collection(db, USERS_COLLECTION, userId, FAVORITES_SUBCOLLECTION);
+
+export const addFavorite = async (userId: string, listing: BoxListing): Promise<void> => {
+  if (!isFirebaseConfigured()) {
+    throw new Error('Firebase is not configured');
+  }
+
+  if (!userId || !listing.id) {
+    throw new Error('Missing required parameters: userId and listing');
+  }
+
+  return queueOperation(async () => {
+    await setDoc(doc(getFavoritesCollection(userId), listing.id), {
+      listingId: listing.id,
+      listingTitle: listing.title,
+      ...(listing.images[0] && { listingImage: listing.images[0] }),
+      listingOwnerId: listing.userId,
+      listingStatus: listing.status,
+      createdAt: serverTimestamp(),
+    });
+    console.log(`✅ Listing ${listing.id} added to favorites for user ${userId}`);
+  });
+};
+
+export const removeFavorite = async (userId: string, listingId: string): Promise<void> => {
+  if (!isFirebaseConfigured()) {
+    throw new Error('Firebase is not configured');
+  }
+
+  return queueOperation(async () => {
+    await deleteDoc(doc(getFavoritesCollection(userId), listingId));
+    console.log(`✅ Listing ${listingId} removed from favorites for user ${userId}`);
+  });
+};
+
+// Most recently favorited first
+export const subscribeToFavorites = (
+  userId: string,
+  callback: (favorites: Favorite[]) => void
+) => {
+  if (!isFirebaseConfigured() || !userId) {
+    callback([]);
+    return () => {};
+  }
+
+  const q = query(getFavoritesCollection(userId), orderBy('createdAt', 'desc'));
+
+  return onSnapshot(q,
+    (querySnapshot) => {
+      callback(querySnapshot.docs.map(doc => ({
+        id: doc.id,
+        ...doc.data({ serverTimestamps: 'estimate' })
+      } as Favorite)));
+    },
+    (error) => {
+      console.error(`❌ Error in favorites subscription for user ${userId}:`, error);
+      handleConnectionError(error);
+    }
+  );
+};
+
+// ✅ NEW: Reports and moderation. Listings with enough independent reports are hidden
+// by the onReportCreated function until a moderator removes or restores them.
+export const reportListing = async (
+  listing: BoxListing,
+  reporterId: string,
+  reason: ReportReason,
+  details?: string
+): Promise<void> => {
+  if (!isFirebaseConfigured()) {
+    throw new Error('Firebase is not configured');
+  }
+
+  if (!listing.id || !reporterId) {
+    throw new Error('Missing required parameters: listing and reporterId');
+  }
+
+  if (listing.userId === reporterId) {
+    throw new Error('You cannot report your own listing');
+  }
+
+  if (details && details.trim().length > MAX_REPORT_DETAILS_LENGTH) {
+    throw new Error(`Details must be ${MAX_REPORT_DETAILS_LENGTH} characters or less`);
+  }
+
+  return queueOperation(async () => {
+    const reportRef = doc(db, REPORTS_COLLECTION, `${listing.id}_${reporterId}`);
+
+    await runTransaction(db, async (transaction) => {
+      // A report a moderator has already closed is replaced by the new one
+      const existing = await transaction.get(reportRef);
+      if (existing.exists() && existing.get('status') === 'open') {
+        throw new Error('You have already reported this listing');
+      }
+
+      transaction.set(reportRef, {
+        listingId: listing.id,
+        listingTitle: listing.title,
+        listingOwnerId: listing.userId,
+        reporterId,
+        reason,
+        ...(details?.trim() && { details: details.trim() }),
+        status: 'open',
+        createdAt: serverTimestamp(),
+      });
+      transaction.set(newHistoryRef(listing.id!), historyEntry('reported', listing.userId, {
+        details: reason,
+        anonymous: true
+      }));
+    });
+
+    console.log(`✅ Listing ${listing.id} reported by ${reporterId} (${reason})`);
+  });
+};
+
+const groupReportsByListing = (reports: Report[]): ReportedListing[] => {
+  const grouped = new Map<string, ReportedListing>();
+
+  reports.forEach(report => {
+    const entry = grouped.get(report.listingId) || {
+      listingId: report.listingId,
+      listingTitle: report.listingTitle,
+      listingOwnerId: report.listingOwnerId,
+      reports: [],
+    };
+    entry.reports.push(report);
+    grouped.set(report.listingId, entry);
+  });
+
+  // Most reported first
+  return Array.from(grouped.values()).sort((a, b) => b.reports.length - a.reports.length);
+};
+
+// Moderators only (enforced by security rules)
+export const subscribeToModerationQueue = (callback: (queue: ReportedListing[]) => void) => {
+  if (!isFirebaseConfigured()) {
+    callback([]);
+    return () => {};
+  }
+
+  const q = query(
+    collection(db, REPORTS_COLLECTION),
+    where('status', '==', 'open'),
+    orderBy('createdAt', 'desc')
+  );
+
+  return onSnapshot(q,
+    (querySnapshot) => {
+      callback(groupReportsByListing(querySnapshot.docs.map(doc => ({
+        id: doc.id,
+        ...doc.data({ serverTimestamps: 'estimate' })
+      } as Report))));
+    },
+    (error) => {
+      console.error('❌ Error in moderation queue subscription:', error);
+      handleConnectionError(error);
+    }
+  );
+};
+
+// Taking a listing down remembers where it was, so restoring it doesn't turn a reserved,
+// claimed or taken box back into an active one. A hidden listing keeps what it was before
+// it was hidden when it is then removed.
+const takeDownFields = (listingSnap: DocumentSnapshot) => {
+  const status = listingSnap.get('status');
+  return ['hidden', 'removed'].includes(status) ? {} : { statusBeforeModeration: status };
+};
+
+const restoreFields = (listingSnap: DocumentSnapshot) => ({
+  status: (listingSnap.get('statusBeforeModeration') || 'active') as BoxListing['status'],
+  statusBeforeModeration: deleteField(),
+});
+
+// Close every open report on a listing and either take the listing down or put it back
+export const resolveReports = async (
+  listingId: string,
+  moderatorId: string,
+  action: 'remove' | 'dismiss'
+): Promise<void> => {
+  if (!isFirebaseConfigured()) {
+    throw new Error('Firebase is not configured');
+  }
+
+  return queueOperation(async () => {
+    const openReports = await getDocs(query(
+      collection(db, REPORTS_COLLECTION),
+      where('listingId', '==', listingId),
+      where('status', '==', 'open')
+    ));
+
+    const listingRef = doc(db, LISTINGS_COLLECTION, listingId);
+    const listingSnap = await getDoc(listingRef);
+
+    const batch = writeBatch(db);
+    openReports.docs.forEach(reportDoc => {
+      batch.update(reportDoc.ref, {
+        status: action === 'remove' ? 'resolved' : 'dismissed',
+        resolvedBy: moderatorId,
+        resolvedAt: serverTimestamp(),
+      });
+    });
+
+    // Malformed listings can still be taken down, so only the status and owner are read here
+    if (listingSnap.exists()) {
+      const listingOwnerId = listingSnap.get('userId') || '';
+      const details = `${openReports.size} report${openReports.size === 1 ? '' : 's'}`;
+
+      if (action === 'remove') {
+        batch.update(listingRef, {
+          status: 'removed',
+          ...takeDownFields(listingSnap),
+          moderatedBy: moderatorId,
+          moderatedAt: serverTimestamp(),
+          updatedAt: serverTimestamp(),
+        });
+        batch.set(newHistoryRef(listingId), historyEntry('removed', listingOwnerId, { details }));
+      } else if (listingSnap.get('status') === 'hidden') {
+        // Reports were unfounded, so put an auto-hidden listing back on the map
+        batch.update(listingRef, {
+          ...restoreFields(listingSnap),
+          reportCount: 0,
+          moderatedBy: moderatorId,
+          moderatedAt: serverTimestamp(),
+          updatedAt: serverTimestamp(),
+        });
+        batch.set(newHistoryRef(listingId), historyEntry('restored', listingOwnerId, { details: `${details} dismissed` }));
+      } else {
+        batch.set(newHistoryRef(listingId), historyEntry('reports_dismissed', listingOwnerId, { details }));
+      }
+    }
+
+    await batch.commit();
+    console.log(`✅ ${openReports.size} reports on listing ${listingId} ${action === 'remove' ? 'resolved' : 'dismissed'}`);
+  });
+};
+
+// ✅ NEW: Admin console. Moderators and admins only, enforced by security rules.
+export const getRecentListings = async (count: number = ADMIN_PAGE_SIZE): Promise<BoxListing[]> => {
+  if (!isFirebaseConfigured()) {
+    return [];
+  }
+
+  return withRetry(async () => {
+    // Every status, including hidden and removed listings
+    const querySnapshot = await getDocs(query(
+      listingsCollection(),
+      orderBy('createdAt', 'desc'),
+      limit(count)
+    ));
+    return toListings(querySnapshot);
+  }, 'getRecentListings');
+};
+
+// Take a listing down, or put a hidden/removed one back on the map
+export const moderateListing = async (
+  listingId: string,
+  moderatorId: string,
+  action: 'remove' | 'restore'
+): Promise<void> => {
+  if (!isFirebaseConfigured()) {
+    throw new Error('Firebase is not configured');
+  }
+
+  return queueOperation(async () => {
+    const listingRef = doc(db, LISTINGS_COLLECTION, listingId);
+    const listingSnap = await getDoc(listingRef);
+
+    const batch = writeBatch(db);
+    batch.update(listingRef, {
+      ...(action === 'remove'
+        ? { status: 'removed', ...takeDownFields(listingSnap) }
+        : { ...restoreFields(listingSnap), reportCount: 0 }),
+      moderatedBy: moderatorId,
+      moderatedAt: serverTimestamp(),
+      updatedAt: serverTimestamp(),
+    });
+    batch.set(
+      newHistoryRef(listingId),
+      historyEntry(action === 'remove' ? 'removed' : 'restored', listingSnap.get('userId') || '')
+    );
+    await batch.commit();
+    console.log(`✅ Listing ${listingId} ${action === 'remove' ? 'removed' : 'restored'} by ${moderatorId}`);
+  });
+};
+
+export const getUsers = async (count: number = ADMIN_PAGE_SIZE): Promise<UserSummary[]> => {
+  if (!isFirebaseConfigured()) {
+    return [];
+  }
+
+  return withRetry(async () => {
+    const querySnapshot = await getDocs(query(
+      collection(db, USERS_COLLECTION).withConverter(userConverter),
+      orderBy('createdAt', 'desc'),
+      limit(count)
+    ));
+    return querySnapshot.docs.map(doc => doc.data()).filter(isPresent);
+  }, 'getUsers');
+};
+
+// Suspended users can still sign in and read, but can't post, comment, message or report
+export const setUserSuspended = async (
+  userId: string,
+  adminId: string,
+  suspended: boolean
+): Promise<void> => {
+  if (!isFirebaseConfigured()) {
+    throw new Error('Firebase is not configured');
+  }
+
+  if (userId === adminId) {
+    throw new Error('You cannot suspend yourself');
+  }
+
+  return queueOperation(async () => {
+    await updateDoc(doc(db, USERS_COLLECTION, userId), {
+      suspended,
+      suspendedBy: suspended ? adminId : deleteField(),
+      suspendedAt: suspended ? serverTimestamp() : deleteField(),
+    });
+    console.log(`✅ User ${userId} ${suspended ? 'suspended' : 'unsuspended'} by ${adminId}`);
+  });
+};
+
+const HISTORY_EVENT_LABELS: Record<ListingHistoryEvent, string> = {
+  created: 'Posted',
+  edited: 'Edited',
+  renewed: 'Renewed',
+  status_changed: 'Status changed',
+  reserved: 'Reserved',
+  released: 'Hold released',
+  claimed: 'Claimed',
+  claim_declined: 'Claim declined',
+  taken: 'Marked taken',
+  expired: 'Expired',
+  item_taken: 'Item taken',
+  deleted: 'Deleted',
+  reported: 'Reported',
+  reports_dismissed: 'Reports dismissed',
+  hidden: 'Hidden',
+  removed: 'Removed by a moderator',
+  restored: 'Restored by a moderator',
+  recovered: 'Restored from the trash',
+  purged: 'Permanently deleted',
+};
+
+const describeHistoryRecord = (record: ListingHistoryRecord): string => {
+  const actor = record.actorId === record.listingOwnerId
+    ? 'the owner'
+    : record.actorName || record.actorId;
+  const by = actor && !['removed', 'restored'].includes(record.event) ? ` by ${actor}` : '';
+  return `${HISTORY_EVENT_LABELS[record.event] || record.event}${by}${record.details ? ` (${record.details})` : ''}`;
+};
+
+// Listings from before the history subcollection existed: rebuild what we can from their
+// lifecycle fields, plus the reports on them when a moderator is asking
+const deriveListingHistory = async (listingId: string): Promise<ListingHistoryEntry[]> => {
+  const [listingSnap, reportsSnap] = await Promise.all([
+    getDoc(listingDoc(listingId)),
+    getDocs(query(collection(db, REPORTS_COLLECTION), where('listingId', '==', listingId))).catch(() => null),
+  ]);
+
+  const entries: ListingHistoryEntry[] = [];
+  const add = (at: Timestamp | undefined, label: string) => {
+    if (at) entries.push({ at, label });
+  };
+
+  const listing = listingSnap.data();
+  if (listing) {
+    add(listing.createdAt, `Posted by ${listing.username}`);
+    add(listing.renewedAt, `Renewed (${listing.renewCount || 1}×)`);
+    add(listing.reservedAt, `Reserved by ${listing.reservedByName || listing.reservedBy}`);
+    add(listing.claimedAt, `Claimed by ${listing.claimedByName || listing.claimedBy}`);
+    add(listing.confirmedAt, `Pickup confirmed by ${listing.confirmedBy}`);
+    add(listing.hiddenAt, `Hidden after ${listing.reportCount || 0} reports`);
+    add(listing.moderatedAt, `Moderated by ${listing.moderatedBy} (now ${listing.status})`);
+  }
+
+  reportsSnap?.docs.forEach(reportDoc => {
+    const report = reportDoc.data() as Report;
+    add(report.createdAt, `Reported: ${report.reason}${report.details ? ` - ${report.details}` : ''}`);
+    add(report.resolvedAt, `Report ${report.status} by ${report.resolvedBy}`);
+  });
+
+  return entries;
+};
+
+// Timeline of a listing for its owner or a moderator (enforced by security rules).
+// Filtering on the owner keeps the query within what the rules let owners read.
+export const getListingHistory = async (
+  listingId: string,
+  listingOwnerId: string
+): Promise<ListingHistoryEntry[]> => {
+  if (!isFirebaseConfigured()) {
+    return [];
+  }
+
+  return withRetry(async () => {
+    const historySnap = await getDocs(query(
+      collection(db, LISTINGS_COLLECTION, listingId, HISTORY_SUBCOLLECTION),
+      where('listingOwnerId', '==', listingOwnerId)
+    ));
+
+    const entries: ListingHistoryEntry[] = historySnap.empty
+      ? await deriveListingHistory(listingId)
+      : historySnap.docs
+        .map(doc => ({ id: doc.id, ...doc.data({ serverTimestamps: 'estimate' }) } as ListingHistoryRecord))
+        .filter(record => record.at)
+        .map(record => ({ at: record.at, label: describeHistoryRecord(record), event: record.event }));
+
+    return entries.sort((a, b) => a.at.toMillis() - b.at.toMillis());
+  }, 'getListingHistory');
+};
+
+// Delete listing
+export const deleteListing = async (listingId: string): Promise<void> => {
+  if (!isFirebaseConfigured()) {
+    throw new Error('Firebase is not configured');
+  }
+
+  return queueDurableWrite('deleteListing', `deleteListing_${listingId}`, 'Delete listing', { listingId });
+};
+
+// Outbox handler for deleteListing. Deleting only moves the listing to the trash; the
+// purgeTrash function removes it and its images once the restore window has passed.
+const writeListingDeletion = async (listingId: string, writeId: string): Promise<void> => {
+  const ownerId = await runTransaction(db, async (transaction) => {
+    const listing = (await transaction.get(listingDoc(listingId))).data();
+    if (!listing || listing.status === 'deleted') return null;
+    if (await isAlreadyWritten(transaction, listingId, writeId)) return listing.userId;
+
+    transaction.update(doc(db, LISTINGS_COLLECTION, listingId), {
+      status: 'deleted',
+      statusBeforeDelete: listing.status,
+      deletedAt: serverTimestamp(),
+      updatedAt: serverTimestamp(),
+    });
+    transaction.set(outboxHistoryRef(listingId, writeId), historyEntry('deleted', listing.userId, { details: 'moved to the trash' }));
+    return listing.userId;
+  });
+  if (!ownerId) return;
+  clearUserListingsCache(ownerId);
+  console.log(`✅ Listing ${listingId} moved to the trash`);
+};
+
+// ✅ NEW: Trash. Deleted listings can be restored for TRASH_RETENTION_DAYS, then they are
+// purged server-side. Must match TRASH_RETENTION_MS in functions/src/trash.ts.
+export const TRASH_RETENTION_DAYS = 7;
+
+// When a listing in the trash will be deleted for good
+export const getTrashPurgeDate = (listing: BoxListing): Date | null => {
+  if (listing.status !== 'deleted' || !listing.deletedAt) return null;
+  return new Date(listing.deletedAt.toMillis() + TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000);
+};
+
+// Put a listing back the way it was before it was deleted
+export const restoreListing = async (listingId: string): Promise<void> => {
+  if (!isFirebaseConfigured()) {
+    throw new Error('Firebase is not configured');
+  }
+
+  return queueDurableWrite('restoreListing', `restoreListing_${listingId}`, 'Restore listing', { listingId });
+};
+
+// Outbox handler for restoreListing
+const writeListingRestore = async (listingId: string, writeId: string): Promise<void> => {
+  const restored = await runTransaction(db, async (transaction) => {
+    const listing = (await transaction.get(listingDoc(listingId))).data();
+    if (!listing) {
+      throw new Error('This listing has already been permanently deleted');
+    }
+    if (listing.status !== 'deleted') return null;
+    if (await isAlreadyWritten(transaction, listingId, writeId)) return null;
+
+    // A restored listing that has since run out is flipped to expired by expireOverdueListings
+    const status = listing.statusBeforeDelete || 'active';
+    transaction.update(doc(db, LISTINGS_COLLECTION, listingId), {
+      status,
+      statusBeforeDelete: deleteField(),
+      deletedAt: deleteField(),
+      updatedAt: serverTimestamp(),
+    });
+    transaction.set(outboxHistoryRef(listingId, writeId), historyEntry('recovered', listing.userId, { details: `back to ${status}` }));
+    return { ownerId: listing.userId, status };
+  });
+  if (!restored) return;
+  clearUserListingsCache(restored.ownerId);
+  console.log(`✅ Listing ${listingId} restored from the trash as ${restored.status}`);
+};
+
+// Empty a listing out of the trash now instead of waiting for purgeTrash. Runs in a Cloud
+// Function (functions/src/trash.ts) so the comments and ratings go with the listing.
+export const purgeListing = async (listing: BoxListing): Promise<void> => {
+  if (!isFirebaseConfigured() || !functions) {
+    throw new Error('Firebase is not configured');
+  }
+
+  if (listing.status !== 'deleted') {
+    throw new Error('Only listings in the trash can be deleted permanently');
+  }
+
+  await httpsCallable<{ listingId: string }, { purged: boolean }>(functions, 'purgeMyListing')({ listingId: listing.id! });
+  clearUserListingsCache(listing.userId);
+  console.log(`✅ Listing ${listing.id} permanently deleted`);
+};
+
+// Rank listings by how well they match the query tokens, newest first on ties
+const rankSearchResults = (listings: BoxListing[], queryTokens: string[]): BoxListing[] => {
+  return listings
+    .map(listing => ({ listing, score: scoreListing(listing, queryTokens) }))
+    .filter(({ score }) => score > 0)
+    .sort((a, b) =>
+      b.score - a.score ||
+      (b.listing.createdAt?.seconds || 0) - (a.listing.createdAt?.seconds || 0)
+    )
+    .map(({ listing }) => listing);
+};
+
+// ✅ OPTIMIZED: Keyword search against the searchTokens index with caching
+export const searchListings = async (searchTerm: string): Promise<BoxListing[]> => {
+  const queryTokens = tokenize(searchTerm).slice(0, MAX_QUERY_TOKENS);
+  if (queryTokens.length === 0) {
+    return [];
+  }
+
+  // Check cache first
+  const cacheKey = `search_${queryTokens.join(' ')}`;
+  try {
+    const cached = sessionStorage.getItem(cacheKey);
+    if (cached) {
+      const { data, timestamp } = JSON.parse(cached);
       if (Date.now() - timestamp < 5 * 60 * 1000) { // 5 minutes
         console.log('📦 Using cached search results');
-        return data;
+        return dropBlockedUsers<BoxListing>(data);
       }
     }
-  } catch (error) {
+  } catch {
     console.warn('Failed to load cached search results');
   }
 
   if (!isFirebaseConfigured()) {
-    const cached = getCachedListings();
-    const searchLower = searchTerm.toLowerCase();
-    return cached.filter(listing => 
-      listing.title.toLowerCase().includes(searchLower) ||
-      listing.description.toLowerCase().includes(searchLower) ||
-      listing.category.toLowerCase().includes(searchLower)
-    );
+    return rankSearchResults(getCachedListings(), queryTokens);
   }
 
   return withRetry(async () => {
     const q = query(
-      collection(db, LISTINGS_COLLECTION),
-      where('status', '==', 'active'),
-      orderBy('createdAt', 'desc'),
+      listingsCollection(),
+      where('status', 'in', FEED_STATUSES),
+      where('searchTokens', 'array-contains-any', queryTokens),
       limit(100)
     );
     
     const querySnapshot = await getDocs(q);
-    const allListings = querySnapshot.docs.map(doc => ({
-      id: doc.id,
-      ...doc.data()
-    } as BoxListing));
+    const matches = dropOverdueListings(toListings(querySnapshot));
     
-    // Client-side filtering for search
-    const searchLower = searchTerm.toLowerCase();
-    const results = allListings.filter(listing => 
-      listing.title.toLowerCase().includes(searchLower) ||
-      listing.description.toLowerCase().includes(searchLower) ||
-      listing.category.toLowerCase().includes(searchLower)
-    );
+    const results = rankSearchResults(matches, queryTokens);
     
     // Cache results
     try {
@@ -885,20 +3081,15 @@ export const searchListings = async (searchTerm: string): Promise<BoxListing[]>
         data: results,
         timestamp: Date.now()
       }));
-    } catch (error) {
+    } catch {
       console.warn('Failed to cache search results');
     }
     
+    console.log(`🔍 Search for "${queryTokens.join(' ')}" matched ${results.length} listings`);
     return results;
   }, 'searchListings').catch(error => {
     console.error('❌ Error searching listings:', error);
-    const cached = getCachedListings();
-    const searchLower = searchTerm.toLowerCase();
-    return cached.filter(listing => 
-      listing.title.toLowerCase().includes(searchLower) ||
-      listing.description.toLowerCase().includes(searchLower) ||
-      listing.category.toLowerCase().includes(searchLower)
-    );
+    return rankSearchResults(getCachedListings(), queryTokens);
   });
 };
 
@@ -920,7 +3111,7 @@ export const calculateDistance = (
   return R * c; // Distance in kilometers
 };
 
-// ✅ OPTIMIZED: Get nearby listings with caching
+// ✅ OPTIMIZED: Get nearby listings via geohash range queries with caching
 export const getNearbyListings = async (
   userLat: number,
   userLng: number,
@@ -959,9 +3150,26 @@ export const getNearbyListings = async (
   }
 
   return withRetry(async () => {
-    const allListings = await getActiveListings();
-    
-    const results = allListings
+    // ✅ NEW: Query only the geohash cells covering the search circle
+    const bounds = getGeohashQueryBounds(userLat, userLng, radiusKm);
+    const snapshots = await Promise.all(bounds.map(({ start, end }) => getDocs(query(
+      listingsCollection(),
+      where('status', 'in', FEED_STATUSES),
+      orderBy('geohash'),
+      startAt(start),
+      endAt(end)
+    ))));
+
+    // Cells can overlap at low precision, so dedupe candidates by id
+    const candidates = new Map<string, BoxListing>();
+    snapshots.forEach(snapshot => {
+      toListings(snapshot).forEach(listing => {
+        candidates.set(listing.id!, listing);
+      });
+    });
+
+    // Geohash cells are square, so trim the corners with the exact distance
+    const results = dropOverdueListings(Array.from(candidates.values()))
       .map(listing => {
         const distance = calculateDistance(
           userLat,
@@ -1007,4 +3215,98 @@ export const getNearbyListings = async (
   });
 };
 
-// Get current connection state
\ No newline at end of file
+// ✅ NEW: Live version of getNearbyListings for the map. Each geohash range gets its own
+// listener, so boxes that are taken, expire, get hidden or go to the trash drop out as
+// soon as their status leaves the feed.
+export const subscribeToNearbyListings = (
+  userLat: number,
+  userLng: number,
+  callback: (listings: (BoxListing & { distance: number })[]) => void,
+  radiusKm: number = 10
+) => {
+  const withinRadius = (listings: BoxListing[]) => listings
+    .map(listing => ({
+      ...listing,
+      distance: calculateDistance(
+        userLat,
+        userLng,
+        listing.location.coordinates.latitude,
+        listing.location.coordinates.longitude
+      )
+    }))
+    .filter(listing => listing.distance <= radiusKm)
+    .sort((a, b) => a.distance - b.distance);
+
+  if (!isFirebaseConfigured() || isOfflineMode) {
+    callback(withinRadius(getCachedListings()));
+    return () => {};
+  }
+
+  const bounds = getGeohashQueryBounds(userLat, userLng, radiusKm);
+  const rangeResults: BoxListing[][] = bounds.map(() => []);
+
+  const unsubscribes = bounds.map(({ start, end }, i) => onSnapshot(
+    query(
+      listingsCollection(),
+      where('status', 'in', FEED_STATUSES),
+      orderBy('geohash'),
+      startAt(start),
+      endAt(end)
+    ),
+    (snapshot) => {
+      rangeResults[i] = toListings(snapshot);
+
+      // Cells can overlap at low precision, so dedupe candidates by id
+      const candidates = new Map<string, BoxListing>();
+      rangeResults.flat().forEach(listing => candidates.set(listing.id!, listing));
+      callback(withinRadius(dropOverdueListings(Array.from(candidates.values()))));
+    },
+    (error) => {
+      console.error('❌ Error in nearby listings subscription:', error);
+      handleConnectionError(error);
+    }
+  ));
+
+  return () => unsubscribes.forEach(unsubscribe => unsubscribe());
+};
+
+// ✅ NEW: Account data. Both run in Cloud Functions (functions/src/account.ts) since they
+// touch other users' listings and conversations that rules keep the client out of.
+export const exportMyData = async (): Promise<Record<string, unknown>> => {
+  if (!isFirebaseConfigured() || !functions) {
+    throw new Error('Firebase is not configured');
+  }
+
+  const result = await httpsCallable<void, Record<string, unknown>>(functions, 'exportMyData')();
+  console.log('✅ Exported account data');
+  return result.data;
+};
+
+export const deleteMyAccount = async (): Promise<void> => {
+  if (!isFirebaseConfigured() || !functions) {
+    throw new Error('Firebase is not configured');
+  }
+
+  await httpsCallable(functions, 'deleteMyAccount')();
+
+  // Nothing queued or cached for this account should outlive it
+  const userId = auth?.currentUser?.uid;
+  const operations = await getOperations();
+  await Promise.all(operations.filter(op => op.userId === userId).map(op => deleteOperation(op.id)));
+  if (userId) clearUserListingsCache(userId);
+
+  console.log('✅ Account deleted');
+};
+
+// Get current connection state
+export const getConnectionStatus = (): ConnectionStatus => connectionStatus;
+
+// ✅ NEW: Lets the UI tell live data from cached data
+export const subscribeToConnectionStatus = (callback: (status: ConnectionStatus) => void): (() => void) => {
+  connectionListeners.add(callback);
+  callback(connectionStatus);
+
+  return () => {
+    connectionListeners.delete(callback);
+  };
+};
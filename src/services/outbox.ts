@@ -0,0 +1,110 @@
+// ✅ NEW: Durable outbox for writes made while offline. Operations are stored in
+// IndexedDB so they survive a reload and are replayed by src/services/firestore.ts.
+// Falls back to memory where IndexedDB isn't available (e.g. some private windows).
+
+export type OutboxStatus = 'pending' | 'failed';
+
+export interface OutboxOperation {
+  id: string;         // dedupe key - re-queuing the same id replaces the earlier entry
+  writeId?: string;   // unique per queued write; handlers key the docs they create on it
+  type: string;
+  payload: unknown;
+  userId: string;     // only replayed for the user who queued it
+  label: string;      // shown in the sync banner, e.g. 'Post "Box of books"'
+  status: OutboxStatus;
+  attempts: number;
+  createdAt: number;
+  lastError?: string;
+}
+
+const DB_NAME = 'takemehomebox';
+const DB_VERSION = 1;
+const STORE_NAME = 'outbox';
+
+const memoryStore = new Map<string, OutboxOperation>();
+const listeners = new Set<(operations: OutboxOperation[]) => void>();
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase | null> => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve) => {
+    if (typeof indexedDB === 'undefined') {
+      console.warn('⚠️ IndexedDB unavailable, offline writes will not survive a reload');
+      resolve(null);
+      return;
+    }
+
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(STORE_NAME, { keyPath: 'id' });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      console.warn('⚠️ Failed to open outbox database, using memory:', request.error);
+      resolve(null);
+    };
+  });
+
+  return dbPromise;
+};
+
+const runRequest = <T>(
+  mode: IDBTransactionMode,
+  makeRequest: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> =>
+  openDatabase().then(db => new Promise<T>((resolve, reject) => {
+    if (!db) {
+      reject(new Error('IndexedDB unavailable'));
+      return;
+    }
+
+    const request = makeRequest(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  }));
+
+export const getOperations = async (): Promise<OutboxOperation[]> => {
+  let operations: OutboxOperation[];
+  try {
+    operations = await runRequest('readonly', store => store.getAll() as IDBRequest<OutboxOperation[]>);
+  } catch {
+    operations = Array.from(memoryStore.values());
+  }
+  return operations.sort((a, b) => a.createdAt - b.createdAt);
+};
+
+const notifyListeners = async () => {
+  if (listeners.size === 0) return;
+
+  const operations = await getOperations();
+  listeners.forEach(listener => listener(operations));
+};
+
+export const putOperation = async (operation: OutboxOperation): Promise<void> => {
+  try {
+    await runRequest('readwrite', store => store.put(operation));
+  } catch {
+    memoryStore.set(operation.id, operation);
+  }
+  notifyListeners();
+};
+
+export const deleteOperation = async (id: string): Promise<void> => {
+  try {
+    await runRequest('readwrite', store => store.delete(id));
+  } catch {
+    memoryStore.delete(id);
+  }
+  notifyListeners();
+};
+
+export const subscribeToOperations = (callback: (operations: OutboxOperation[]) => void) => {
+  listeners.add(callback);
+  getOperations().then(callback);
+
+  return () => {
+    listeners.delete(callback);
+  };
+};
@@ -0,0 +1,111 @@
+// Geohash utility functions
+const BASE32 = '0123456789bcdefghjkmnpqrstuvwxyz';
+const EARTH_KM_PER_DEGREE = 111.32;
+const MAX_PRECISION = 9;
+
+export interface GeohashRange {
+  start: string;
+  end: string;
+}
+
+// Encode a coordinate into a geohash string (precision 9 ≈ 5m cells)
+export const encodeGeohash = (
+  lat: number,
+  lng: number,
+  precision: number = MAX_PRECISION
+): string => {
+  let latMin = -90;
+  let latMax = 90;
+  let lngMin = -180;
+  let lngMax = 180;
+  let hash = '';
+  let bits = 0;
+  let value = 0;
+  let isLngBit = true;
+
+  while (hash.length < precision) {
+    if (isLngBit) {
+      const mid = (lngMin + lngMax) / 2;
+      if (lng >= mid) {
+        value = (value << 1) | 1;
+        lngMin = mid;
+      } else {
+        value = value << 1;
+        lngMax = mid;
+      }
+    } else {
+      const mid = (latMin + latMax) / 2;
+      if (lat >= mid) {
+        value = (value << 1) | 1;
+        latMin = mid;
+      } else {
+        value = value << 1;
+        latMax = mid;
+      }
+    }
+
+    isLngBit = !isLngBit;
+    bits++;
+
+    if (bits === 5) {
+      hash += BASE32[value];
+      bits = 0;
+      value = 0;
+    }
+  }
+
+  return hash;
+};
+
+// Size of a geohash cell in degrees at the given precision
+const getCellSize = (precision: number) => {
+  const totalBits = precision * 5;
+  const lngBits = Math.ceil(totalBits / 2);
+  const latBits = Math.floor(totalBits / 2);
+  return {
+    latDegrees: 180 / Math.pow(2, latBits),
+    lngDegrees: 360 / Math.pow(2, lngBits),
+  };
+};
+
+// Longest precision whose cells are still at least radiusKm wide at this latitude,
+// so the center cell plus its 8 neighbours always cover the whole search circle
+export const getPrecisionForRadius = (lat: number, radiusKm: number): number => {
+  const lngKmPerDegree = EARTH_KM_PER_DEGREE * Math.max(Math.cos(lat * Math.PI / 180), 0.01);
+
+  for (let precision = MAX_PRECISION; precision > 1; precision--) {
+    const { latDegrees, lngDegrees } = getCellSize(precision);
+    if (latDegrees * EARTH_KM_PER_DEGREE >= radiusKm && lngDegrees * lngKmPerDegree >= radiusKm) {
+      return precision;
+    }
+  }
+
+  return 1;
+};
+
+const wrapLongitude = (lng: number) => ((((lng + 180) % 360) + 360) % 360) - 180;
+
+// Geohash cells (center + neighbours) that cover a circle around a point
+export const getGeohashesForRadius = (lat: number, lng: number, radiusKm: number): string[] => {
+  const precision = getPrecisionForRadius(lat, radiusKm);
+  const { latDegrees, lngDegrees } = getCellSize(precision);
+  const hashes = new Set<string>();
+
+  for (const dLat of [-1, 0, 1]) {
+    for (const dLng of [-1, 0, 1]) {
+      const cellLat = Math.max(-90, Math.min(90, lat + dLat * latDegrees));
+      const cellLng = wrapLongitude(lng + dLng * lngDegrees);
+      hashes.add(encodeGeohash(cellLat, cellLng, precision));
+    }
+  }
+
+  return Array.from(hashes);
+};
+
+// Start/end ranges for querying a geohash field ordered lexicographically
+export const getGeohashQueryBounds = (lat: number, lng: number, radiusKm: number): GeohashRange[] => {
+  return getGeohashesForRadius(lat, lng, radiusKm).map(hash => ({
+    start: hash,
+    end: hash + '~',
+  }));
+};
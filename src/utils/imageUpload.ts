@@ -1,5 +1,5 @@
 import { ref, uploadBytes, getDownloadURL, deleteObject } from 'firebase/storage';
-import { storage } from '../firebase.config';
+import { auth, storage } from '../firebase.config';
 
 // Image upload utility functions
 export interface UploadedImage {
@@ -198,8 +198,10 @@ export const uploadImage = async (file: File, folder: string = 'listings'): Prom
           savings: file.size - compressedBlob.size
         });
 
-        // Try Firebase Storage first
-        if (isStorageConfigured()) {
+        // Try Firebase Storage first. Uploads live under the uploader's uid, which is
+        // what storage.rules checks before letting anyone replace or delete them.
+        const uid = auth.currentUser?.uid;
+        if (isStorageConfigured() && uid) {
           try {
             console.log('🟡 [DEBUG] Attempting Firebase Storage upload...');
             
@@ -210,10 +212,10 @@ export const uploadImage = async (file: File, folder: string = 'listings'): Prom
             const filename = `${timestamp}-${randomId}.${extension}`;
             
             console.log('🟡 [DEBUG] Generated filename:', filename);
-            console.log('🟡 [DEBUG] Full storage path:', `${folder}/${filename}`);
+            console.log('🟡 [DEBUG] Full storage path:', `${folder}/${uid}/${filename}`);
             
             // Create storage reference
-            const storageRef = ref(storage, `${folder}/${filename}`);
+            const storageRef = ref(storage, `${folder}/${uid}/${filename}`);
             console.log('🟡 [DEBUG] Storage reference created');
             
             // Upload compressed file
@@ -257,7 +259,7 @@ export const uploadImage = async (file: File, folder: string = 'listings'): Prom
             console.log('🟡 [DEBUG] Falling back to local storage...');
           }
         } else {
-          console.log('🟡 [DEBUG] Firebase Storage not configured, using local storage');
+          console.log('🟡 [DEBUG] Firebase Storage not configured or no signed-in user, using local storage');
         }
 
         // Fallback to local storage
@@ -0,0 +1,80 @@
+// Keyword search index utility functions
+
+// Firestore allows up to 30 values in array-contains-any; keep queries well under that
+export const MAX_QUERY_TOKENS = 10;
+const MAX_INDEX_TOKENS = 100;
+const MIN_TOKEN_LENGTH = 2;
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'has', 'in', 'is', 'it',
+  'its', 'of', 'on', 'or', 'that', 'the', 'this', 'to', 'was', 'were', 'with', 'some', 'box',
+]);
+
+export interface SearchableFields {
+  title: string;
+  description: string;
+  category: string;
+  items?: { name: string; category: string }[];
+}
+
+// Lowercase, strip accents and punctuation
+const normalizeText = (text: string): string =>
+  text
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+
+// Light suffix stemming so "chairs", "chair" and "chairing" share a token
+export const stemToken = (word: string): string => {
+  if (word.length > 4 && word.endsWith('ies')) return word.slice(0, -3) + 'y';
+  if (word.length > 5 && word.endsWith('ing')) return word.slice(0, -3);
+  if (word.length > 4 && word.endsWith('ed')) return word.slice(0, -2);
+  if (word.length > 3 && /(ches|shes|sses|xes|zes)$/.test(word)) return word.slice(0, -2);
+  if (word.length > 3 && word.endsWith('s') && !word.endsWith('ss')) return word.slice(0, -1);
+  return word;
+};
+
+// Unique, stemmed, stop-word-free tokens in order of first appearance
+export const tokenize = (text: string): string[] => {
+  const tokens = new Set<string>();
+
+  normalizeText(text || '').split(' ').forEach(word => {
+    if (word.length < MIN_TOKEN_LENGTH || STOP_WORDS.has(word)) return;
+    const token = stemToken(word);
+    if (!STOP_WORDS.has(token)) tokens.add(token);
+  });
+
+  return Array.from(tokens);
+};
+
+// Tokens stored on a listing as searchTokens
+export const buildSearchTokens = (fields: SearchableFields): string[] => {
+  const tokens = new Set([
+    ...tokenize(fields.title),
+    ...tokenize(fields.category),
+    ...(fields.items || []).flatMap(item => [...tokenize(item.name), ...tokenize(item.category)]),
+    ...tokenize(fields.description),
+  ]);
+
+  return Array.from(tokens).slice(0, MAX_INDEX_TOKENS);
+};
+
+// Rank a listing against query tokens: title matches count most, then category or a
+// named item, then description
+export const scoreListing = (fields: SearchableFields, queryTokens: string[]): number => {
+  const titleTokens = new Set(tokenize(fields.title));
+  const categoryTokens = new Set([
+    ...tokenize(fields.category),
+    ...(fields.items || []).flatMap(item => tokenize(item.name)),
+  ]);
+  const descriptionTokens = new Set(tokenize(fields.description));
+
+  return queryTokens.reduce((score, token) => {
+    if (titleTokens.has(token)) return score + 3;
+    if (categoryTokens.has(token)) return score + 2;
+    if (descriptionTokens.has(token)) return score + 1;
+    return score;
+  }, 0);
+};
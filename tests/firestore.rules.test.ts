@@ -0,0 +1,535 @@
+import { readFileSync } from 'node:fs';
+import { afterAll, beforeAll, beforeEach, describe, it } from 'vitest';
+import {
+  assertFails,
+  assertSucceeds,
+  initializeTestEnvironment,
+  RulesTestEnvironment,
+} from '@firebase/rules-unit-testing';
+import {
+  doc,
+  getDoc,
+  setDoc,
+  updateDoc,
+  deleteDoc,
+  deleteField,
+  writeBatch,
+  serverTimestamp,
+  Timestamp,
+} from 'firebase/firestore';
+
+// Runs against the Firestore emulator: `npm run test:rules` starts it for us
+const OWNER = 'owner';
+const TAKER = 'taker';
+const OTHER = 'other';
+const LISTING = 'listing1';
+
+let testEnv: RulesTestEnvironment;
+
+const db = (uid?: string) =>
+  uid ? testEnv.authenticatedContext(uid).firestore() : testEnv.unauthenticatedContext().firestore();
+
+// Mirrors the document createListing writes
+const newListing = (overrides: Record<string, unknown> = {}) => ({
+  title: 'Box of books',
+  description: 'Paperbacks',
+  category: 'books',
+  images: [],
+  isSpotted: false,
+  userId: OWNER,
+  username: 'Owner',
+  rating: 0,
+  ratingCount: 0,
+  ratingSum: 0,
+  status: 'active',
+  createdAt: serverTimestamp(),
+  updatedAt: serverTimestamp(),
+  ...overrides,
+});
+
+const seed = async (path: string, data: Record<string, unknown>) => {
+  await testEnv.withSecurityRulesDisabled(async (context) => {
+    await setDoc(doc(context.firestore(), path), data);
+  });
+};
+
+const seedListing = (overrides: Record<string, unknown> = {}) =>
+  seed(`listings/${LISTING}`, newListing(overrides));
+
+beforeAll(async () => {
+  testEnv = await initializeTestEnvironment({
+    projectId: 'takemehomebox-rules-test',
+    firestore: { rules: readFileSync('firestore.rules', 'utf8') },
+  });
+});
+
+beforeEach(async () => {
+  await testEnv.clearFirestore();
+  await Promise.all([OWNER, TAKER, OTHER].map(uid => seed(`users/${uid}`, { username: uid, role: 'user' })));
+});
+
+afterAll(async () => {
+  await testEnv.cleanup();
+});
+
+describe('listings', () => {
+  it('lets anyone read an active listing', async () => {
+    await seedListing();
+    await assertSucceeds(getDoc(doc(db(), `listings/${LISTING}`)));
+  });
+
+  it('only shows taken and expired listings to their owner', async () => {
+    await seedListing({ status: 'expired' });
+    await assertSucceeds(getDoc(doc(db(OWNER), `listings/${LISTING}`)));
+    await assertFails(getDoc(doc(db(OTHER), `listings/${LISTING}`)));
+  });
+
+  it('lets a user create an unrated listing as themselves', async () => {
+    await assertSucceeds(setDoc(doc(db(OWNER), 'listings/new'), newListing()));
+  });
+
+  it('rejects listings created for someone else or with a head start on ratings', async () => {
+    await assertFails(setDoc(doc(db(OTHER), 'listings/new'), newListing()));
+    await assertFails(setDoc(doc(db(OWNER), 'listings/new'), newListing({ rating: 5, ratingCount: 10, ratingSum: 50 })));
+    await assertFails(setDoc(doc(db(OWNER), 'listings/new'), newListing({ takenBy: TAKER })));
+  });
+
+  it('stops suspended users creating listings', async () => {
+    await seed(`users/${OWNER}`, { username: OWNER, suspended: true });
+    await assertFails(setDoc(doc(db(OWNER), 'listings/new'), newListing()));
+  });
+
+  it('lets the owner edit their listing text and status', async () => {
+    await seedListing();
+    await assertSucceeds(updateDoc(doc(db(OWNER), `listings/${LISTING}`), {
+      title: 'Box of paperbacks',
+      updatedAt: serverTimestamp(),
+    }));
+    await assertSucceeds(updateDoc(doc(db(OWNER), `listings/${LISTING}`), { status: 'expired' }));
+  });
+
+  it('stops the owner touching ratings, ownership or the pickup handshake', async () => {
+    await seedListing();
+    const ref = doc(db(OWNER), `listings/${LISTING}`);
+    await assertFails(updateDoc(ref, { rating: 5, ratingSum: 5, ratingCount: 1 }));
+    await assertFails(updateDoc(ref, { userId: OTHER }));
+    await assertFails(updateDoc(ref, { status: 'taken', takenBy: TAKER }));
+  });
+
+  it('lets moderators restore a listing to its status before it was taken down', async () => {
+    await seed(`users/${OTHER}`, { username: OTHER, role: 'moderator' });
+    await seedListing({ status: 'hidden', statusBeforeModeration: 'claimed', claimedBy: TAKER });
+    await assertFails(updateDoc(doc(db(OWNER), `listings/${LISTING}`), { statusBeforeModeration: 'active' }));
+    await assertSucceeds(updateDoc(doc(db(OTHER), `listings/${LISTING}`), {
+      status: 'claimed',
+      statusBeforeModeration: deleteField(),
+      reportCount: 0,
+      moderatedBy: OTHER,
+      moderatedAt: serverTimestamp(),
+    }));
+  });
+
+  it('stops non-owners editing or deleting a listing', async () => {
+    await seedListing();
+    await assertFails(updateDoc(doc(db(OTHER), `listings/${LISTING}`), { title: 'Mine now' }));
+    await assertFails(deleteDoc(doc(db(OTHER), `listings/${LISTING}`)));
+    await assertSucceeds(deleteDoc(doc(db(OWNER), `listings/${LISTING}`)));
+  });
+});
+
+describe('pickup handshake', () => {
+  it('lets a taker claim and the giver confirm', async () => {
+    await seedListing();
+    await assertSucceeds(updateDoc(doc(db(TAKER), `listings/${LISTING}`), {
+      status: 'claimed',
+      claimedBy: TAKER,
+      claimedByName: 'Taker',
+      claimedAt: serverTimestamp(),
+    }));
+    await assertSucceeds(updateDoc(doc(db(OWNER), `listings/${LISTING}`), {
+      status: 'taken',
+      takenBy: TAKER,
+      confirmedBy: OWNER,
+      confirmedAt: serverTimestamp(),
+    }));
+  });
+
+  it('stops a taker confirming their own claim', async () => {
+    await seedListing({ status: 'claimed', claimedBy: TAKER });
+    await assertFails(updateDoc(doc(db(TAKER), `listings/${LISTING}`), {
+      status: 'taken',
+      takenBy: TAKER,
+      confirmedBy: TAKER,
+    }));
+  });
+
+  it('stops anyone marking someone else as the taker', async () => {
+    await seedListing({ status: 'claimed', claimedBy: TAKER });
+    await assertFails(updateDoc(doc(db(OWNER), `listings/${LISTING}`), {
+      status: 'taken',
+      takenBy: OTHER,
+      confirmedBy: OWNER,
+    }));
+  });
+
+  it('lets a spotted box be confirmed by a third user but not its spotter', async () => {
+    await seedListing({ isSpotted: true, status: 'claimed', claimedBy: TAKER });
+    const confirm = { status: 'taken', takenBy: TAKER, confirmedBy: '' };
+    await assertFails(updateDoc(doc(db(OWNER), `listings/${LISTING}`), { ...confirm, confirmedBy: OWNER }));
+    await assertSucceeds(updateDoc(doc(db(OTHER), `listings/${LISTING}`), { ...confirm, confirmedBy: OTHER }));
+  });
+
+  it('lets a taker hold a box for at most 30 minutes', async () => {
+    await seedListing();
+    const hold = (minutes: number) => ({
+      status: 'reserved',
+      reservedBy: TAKER,
+      reservedByName: 'Taker',
+      reservedAt: serverTimestamp(),
+      reservationExpiresAt: Timestamp.fromMillis(Date.now() + minutes * 60 * 1000),
+    });
+    await assertFails(updateDoc(doc(db(TAKER), `listings/${LISTING}`), hold(120)));
+    await assertSucceeds(updateDoc(doc(db(TAKER), `listings/${LISTING}`), hold(25)));
+    await assertFails(updateDoc(doc(db(OTHER), `listings/${LISTING}`), { ...hold(25), reservedBy: OTHER }));
+  });
+
+  describe('multi-item boxes', () => {
+    const lamp = { id: 'lamp', name: 'Lamp', category: 'electronics', taken: false };
+    const mugs = { id: 'mugs', name: 'Mugs', category: 'kitchen', taken: false };
+    const takenBy = (uid: string, item: Record<string, unknown>) =>
+      ({ ...item, taken: true, takenBy: uid, takenByName: uid, takenAt: Timestamp.now() });
+    const take = (uid: string, data: Record<string, unknown>) =>
+      updateDoc(doc(db(uid), `listings/${LISTING}`), { ...data, updatedAt: serverTimestamp() });
+
+    it('lets takers take items one at a time, and the last one takes the box', async () => {
+      await seedListing({ items: [lamp, mugs] });
+      await assertSucceeds(take(TAKER, { items: [takenBy(TAKER, lamp), mugs] }));
+      await assertSucceeds(take(OTHER, { items: [takenBy(TAKER, lamp), takenBy(OTHER, mugs)], status: 'taken' }));
+    });
+
+    it('stops takers changing items other than the one they take', async () => {
+      await seedListing({ items: [lamp, mugs] });
+      await assertFails(take(TAKER, { items: [{ ...takenBy(TAKER, lamp), name: 'Gold watch' }, mugs] }));
+      await assertFails(take(TAKER, { items: [takenBy(TAKER, lamp), { ...mugs, name: 'Gold watch' }] }));
+      await assertFails(take(TAKER, { items: [takenBy(TAKER, lamp), takenBy(TAKER, mugs)], status: 'taken' }));
+      await assertFails(take(TAKER, { items: [takenBy(OTHER, lamp), mugs] }));
+      await assertFails(take(TAKER, { items: [lamp] }));
+      await assertFails(take(TAKER, { items: [lamp, mugs, takenBy(TAKER, { ...lamp, id: 'extra' })] }));
+    });
+
+    it('stops takers putting back items someone else took', async () => {
+      await seedListing({ items: [takenBy(OTHER, lamp), mugs] });
+      await assertFails(take(TAKER, { items: [lamp, takenBy(TAKER, mugs)] }));
+      await assertFails(take(TAKER, { items: [{ ...takenBy(OTHER, lamp), takenBy: TAKER }, mugs] }));
+    });
+
+    it('only takes the box with its last item', async () => {
+      await seedListing({ items: [lamp, mugs] });
+      await assertFails(take(TAKER, { items: [takenBy(TAKER, lamp), mugs], status: 'taken' }));
+      await seedListing({ items: [takenBy(OTHER, lamp), mugs] });
+      await assertFails(take(TAKER, { items: [takenBy(OTHER, lamp), takenBy(TAKER, mugs)] }));
+      await assertSucceeds(take(TAKER, { items: [takenBy(OTHER, lamp), takenBy(TAKER, mugs)], status: 'taken' }));
+    });
+
+    it('stops item claims on single-item boxes, on your own box or past a hold', async () => {
+      await seedListing();
+      await assertFails(take(TAKER, { items: [takenBy(TAKER, lamp)], status: 'taken' }));
+      await seedListing({ items: [lamp, mugs] });
+      await assertFails(take(OWNER, { items: [takenBy(OWNER, lamp), mugs], takenBy: OWNER }));
+      await seedListing({
+        items: [lamp, mugs],
+        status: 'reserved',
+        reservedBy: OTHER,
+        reservationExpiresAt: Timestamp.fromMillis(Date.now() + 10 * 60 * 1000),
+      });
+      await assertFails(take(TAKER, { items: [takenBy(TAKER, lamp), mugs] }));
+    });
+
+    it('stops takers claiming the whole box', async () => {
+      await seedListing({ items: [lamp, mugs] });
+      await assertFails(take(TAKER, { status: 'claimed', claimedBy: TAKER, claimedByName: 'Taker', claimedAt: serverTimestamp() }));
+    });
+  });
+});
+
+describe('ratings', () => {
+  // addRatingToListing writes the rating doc and the listing aggregate together
+  const rate = (uid: string, rating: number, aggregate: Record<string, number>) => {
+    const firestore = db(uid);
+    const batch = writeBatch(firestore);
+    batch.set(doc(firestore, `listings/${LISTING}/ratings/${uid}`), {
+      userId: uid,
+      listingId: LISTING,
+      listingOwnerId: OWNER,
+      rating,
+      updatedAt: serverTimestamp(),
+    });
+    batch.update(doc(firestore, `listings/${LISTING}`), aggregate);
+    return batch.commit();
+  };
+
+  // TAKER has already rated the listing 4
+  const seedRated = async () => {
+    await seedListing({ rating: 4, ratingSum: 4, ratingCount: 1 });
+    await seed(`listings/${LISTING}/ratings/${TAKER}`, {
+      userId: TAKER,
+      listingId: LISTING,
+      listingOwnerId: OWNER,
+      rating: 4,
+      updatedAt: Timestamp.now(),
+    });
+  };
+
+  it('accepts a whole rating from 1 to 5 with its aggregate', async () => {
+    await seedListing();
+    await assertSucceeds(rate(TAKER, 4, { rating: 4, ratingSum: 4, ratingCount: 1 }));
+  });
+
+  it('rejects ratings outside 1-5 and ratings of your own listing', async () => {
+    await seedListing();
+    await assertFails(rate(TAKER, 0, { rating: 0, ratingSum: 0, ratingCount: 1 }));
+    await assertFails(rate(TAKER, 6, { rating: 5, ratingSum: 6, ratingCount: 1 }));
+    await assertFails(rate(TAKER, 4.5, { rating: 4.5, ratingSum: 4.5, ratingCount: 1 }));
+    await assertFails(rate(OWNER, 5, { rating: 5, ratingSum: 5, ratingCount: 1 }));
+  });
+
+  it('only lets raters nudge the aggregate alongside their own rating doc', async () => {
+    await seedListing();
+    await assertFails(updateDoc(doc(db(TAKER), `listings/${LISTING}`), { rating: 5, ratingSum: 5, ratingCount: 1 }));
+    await assertFails(rate(TAKER, 5, { rating: 5, ratingSum: 50, ratingCount: 10 }));
+  });
+
+  it('swaps an earlier rating for the new one in the aggregate', async () => {
+    await seedRated();
+    await assertSucceeds(rate(TAKER, 2, { rating: 2, ratingSum: 2, ratingCount: 1 }));
+    await assertSucceeds(rate(OTHER, 5, { rating: 3.5, ratingSum: 7, ratingCount: 2 }));
+  });
+
+  it('stops past raters forging the aggregate', async () => {
+    await seedRated();
+    // Without rewriting their rating doc
+    await assertFails(updateDoc(doc(db(TAKER), `listings/${LISTING}`), { rating: 5, ratingSum: 5 }));
+    await assertFails(updateDoc(doc(db(TAKER), `listings/${LISTING}`), { rating: 1, ratingSum: 1, ratingCount: 1 }));
+    // With a sum, count or average that doesn't follow from their rating
+    await assertFails(rate(TAKER, 4, { rating: 5, ratingSum: 5, ratingCount: 1 }));
+    await assertFails(rate(TAKER, 5, { rating: 5, ratingSum: 9, ratingCount: 2 }));
+    await assertFails(rate(TAKER, 5, { rating: 5, ratingSum: 10, ratingCount: 2 }));
+    await assertFails(rate(TAKER, 5, { rating: 4, ratingSum: 5, ratingCount: 1 }));
+  });
+});
+
+describe('comments', () => {
+  const comment = (uid: string, text = 'Is it still there?') => setDoc(doc(db(uid), `listings/${LISTING}/comments/c-${uid}`), {
+    userId: uid,
+    username: uid,
+    text,
+    createdAt: serverTimestamp(),
+  });
+
+  it('lets any active user comment on a listing', async () => {
+    await seedListing();
+    await assertSucceeds(comment(TAKER));
+    await assertSucceeds(comment(OWNER));
+  });
+
+  it('rejects empty, oversized or impersonated comments', async () => {
+    await seedListing();
+    await assertFails(comment(TAKER, ''));
+    await assertFails(comment(TAKER, 'x'.repeat(501)));
+    await assertFails(setDoc(doc(db(TAKER), `listings/${LISTING}/comments/fake`), {
+      userId: OTHER,
+      username: OTHER,
+      text: 'Not me',
+      createdAt: serverTimestamp(),
+    }));
+  });
+
+  it('stops users the owner has blocked from commenting or reserving', async () => {
+    await seedListing();
+    await seed(`users/${OWNER}`, { username: OWNER, blockedUsers: [TAKER] });
+    await assertFails(comment(TAKER));
+    await assertFails(updateDoc(doc(db(TAKER), `listings/${LISTING}`), {
+      status: 'reserved',
+      reservedBy: TAKER,
+      reservationExpiresAt: Timestamp.fromMillis(Date.now() + 10 * 60 * 1000),
+    }));
+    await assertSucceeds(comment(OTHER));
+  });
+
+  it('lets authors edit and the listing owner delete comments', async () => {
+    await seedListing();
+    await seed(`listings/${LISTING}/comments/c1`, { userId: TAKER, username: TAKER, text: 'Hi' });
+    await assertSucceeds(updateDoc(doc(db(TAKER), `listings/${LISTING}/comments/c1`), { text: 'Hello' }));
+    await assertFails(updateDoc(doc(db(OTHER), `listings/${LISTING}/comments/c1`), { text: 'Hijacked' }));
+    await assertFails(deleteDoc(doc(db(OTHER), `listings/${LISTING}/comments/c1`)));
+    await assertSucceeds(deleteDoc(doc(db(OWNER), `listings/${LISTING}/comments/c1`)));
+  });
+});
+
+describe('history', () => {
+  const entry = (uid: string, overrides: Record<string, unknown> = {}) => ({
+    event: 'edited',
+    listingOwnerId: OWNER,
+    actorId: uid,
+    at: serverTimestamp(),
+    ...overrides,
+  });
+
+  it('lets the owner and moderators read history, but no one else', async () => {
+    await seedListing();
+    await seed(`users/${OTHER}`, { username: OTHER, role: 'moderator' });
+    await seed(`listings/${LISTING}/history/h1`, { event: 'created', listingOwnerId: OWNER, at: Timestamp.now() });
+    await assertSucceeds(getDoc(doc(db(OWNER), `listings/${LISTING}/history/h1`)));
+    await assertSucceeds(getDoc(doc(db(OTHER), `listings/${LISTING}/history/h1`)));
+    await assertFails(getDoc(doc(db(TAKER), `listings/${LISTING}/history/h1`)));
+  });
+
+  it('lets outbox replays check for their entry, but never write it twice', async () => {
+    await seedListing();
+    await assertSucceeds(getDoc(doc(db(OWNER), `listings/${LISTING}/history/write1`)));
+    const edit = () => {
+      const firestore = db(OWNER);
+      const batch = writeBatch(firestore);
+      batch.update(doc(firestore, `listings/${LISTING}`), { title: 'Box of paperbacks', updatedAt: serverTimestamp() });
+      batch.set(doc(firestore, `listings/${LISTING}/history/write1`), entry(OWNER));
+      return batch.commit();
+    };
+    await assertSucceeds(edit());
+    await assertFails(edit());
+  });
+
+  it('keeps the history of a deleted listing, written in the same batch', async () => {
+    await seedListing();
+    const firestore = db(OWNER);
+    const batch = writeBatch(firestore);
+    batch.delete(doc(firestore, `listings/${LISTING}`));
+    batch.set(doc(firestore, `listings/${LISTING}/history/h1`), entry(OWNER, { event: 'deleted' }));
+    await assertSucceeds(batch.commit());
+    await assertSucceeds(getDoc(doc(db(OWNER), `listings/${LISTING}/history/h1`)));
+  });
+
+  it('only lets others add entries alongside a change to the listing', async () => {
+    await seedListing();
+    await assertFails(setDoc(doc(db(TAKER), `listings/${LISTING}/history/h1`), entry(TAKER, { event: 'taken' })));
+
+    const firestore = db(TAKER);
+    const batch = writeBatch(firestore);
+    batch.update(doc(firestore, `listings/${LISTING}`), {
+      status: 'claimed',
+      claimedBy: TAKER,
+      claimedByName: 'Taker',
+      claimedAt: serverTimestamp(),
+      updatedAt: serverTimestamp(),
+    });
+    batch.set(doc(firestore, `listings/${LISTING}/history/h2`), entry(TAKER, { event: 'claimed' }));
+    await assertSucceeds(batch.commit());
+  });
+
+  it('rejects events that do not match the change made alongside them', async () => {
+    await seedListing();
+    const reserveWith = (history: Record<string, unknown>) => {
+      const firestore = db(TAKER);
+      const batch = writeBatch(firestore);
+      batch.update(doc(firestore, `listings/${LISTING}`), {
+        status: 'reserved',
+        reservedBy: TAKER,
+        reservedByName: 'Taker',
+        reservedAt: serverTimestamp(),
+        reservationExpiresAt: Timestamp.fromMillis(Date.now() + 10 * 60 * 1000),
+        updatedAt: serverTimestamp(),
+      });
+      batch.set(doc(firestore, `listings/${LISTING}/history/h1`), history);
+      return batch.commit();
+    };
+    await assertFails(reserveWith(entry(TAKER, { event: 'taken' })));
+    await assertFails(reserveWith(entry(TAKER, { event: 'deleted' })));
+    await assertFails(reserveWith(entry(TAKER, { event: 'restored' })));
+    await assertFails(reserveWith({ event: 'reserved', listingOwnerId: OWNER, at: serverTimestamp() }));
+    await assertSucceeds(reserveWith(entry(TAKER, { event: 'reserved' })));
+  });
+
+  it('keeps moderator events to moderators and report entries to reporters', async () => {
+    await seedListing();
+    await assertFails(setDoc(doc(db(OWNER), `listings/${LISTING}/history/h1`), entry(OWNER, { event: 'restored' })));
+    await assertFails(setDoc(doc(db(OWNER), `listings/${LISTING}/history/h1`), entry(OWNER, { event: 'edited' })));
+    await assertFails(setDoc(doc(db(TAKER), `listings/${LISTING}/history/h1`), {
+      event: 'reported',
+      listingOwnerId: OWNER,
+      at: serverTimestamp(),
+    }));
+    await seed(`users/${OTHER}`, { username: OTHER, role: 'moderator' });
+    await assertSucceeds(setDoc(doc(db(OTHER), `listings/${LISTING}/history/h1`), entry(OTHER, { event: 'reports_dismissed' })));
+  });
+
+  it('rejects entries for the wrong owner, as someone else or that rewrite history', async () => {
+    await seedListing();
+    await assertFails(setDoc(doc(db(OWNER), `listings/${LISTING}/history/h1`), entry(OWNER, { listingOwnerId: OTHER })));
+    await assertFails(setDoc(doc(db(OWNER), `listings/${LISTING}/history/h1`), entry(TAKER)));
+    await seed(`listings/${LISTING}/history/h2`, { event: 'created', listingOwnerId: OWNER, at: Timestamp.now() });
+    await assertFails(updateDoc(doc(db(OWNER), `listings/${LISTING}/history/h2`), { event: 'edited' }));
+    await assertFails(deleteDoc(doc(db(OWNER), `listings/${LISTING}/history/h2`)));
+  });
+});
+
+describe('reports', () => {
+  const REPORT = `reports/${LISTING}_${TAKER}`;
+  const report = () => ({
+    listingId: LISTING,
+    listingOwnerId: OWNER,
+    reporterId: TAKER,
+    reason: 'spam',
+    status: 'open',
+    createdAt: serverTimestamp(),
+  });
+
+  it('allows one open report per reporter, and a new one once it is closed', async () => {
+    await seedListing();
+    await assertSucceeds(setDoc(doc(db(TAKER), REPORT), report()));
+    await assertFails(setDoc(doc(db(TAKER), REPORT), report()));
+    await seed(REPORT, { ...report(), status: 'dismissed', resolvedBy: OTHER, createdAt: Timestamp.now() });
+    await assertFails(setDoc(doc(db(TAKER), REPORT), { ...report(), resolvedBy: OTHER }));
+    await assertSucceeds(setDoc(doc(db(TAKER), REPORT), report()));
+  });
+
+  it('stops reports filed as someone else or against your own listing', async () => {
+    await seedListing();
+    await assertFails(setDoc(doc(db(OTHER), REPORT), report()));
+    await assertFails(setDoc(doc(db(OWNER), `reports/${LISTING}_${OWNER}`), { ...report(), reporterId: OWNER }));
+  });
+
+  it('stops reports naming someone other than the listing owner', async () => {
+    await seedListing();
+    await assertFails(setDoc(doc(db(OWNER), `reports/${LISTING}_${OWNER}`), {
+      ...report(),
+      reporterId: OWNER,
+      listingOwnerId: OTHER,
+    }));
+    await assertFails(setDoc(doc(db(TAKER), REPORT), { ...report(), listingOwnerId: OTHER }));
+  });
+});
+
+describe('users', () => {
+  it('stops users crediting themselves items, ratings or promotions', async () => {
+    const ref = doc(db(TAKER), `users/${TAKER}`);
+    await assertSucceeds(updateDoc(ref, { bio: 'Hello' }));
+    await assertFails(updateDoc(ref, { itemsTaken: 100 }));
+    await assertFails(updateDoc(ref, { rating: 5, ratingCount: 100 }));
+    await assertFails(updateDoc(ref, { role: 'admin' }));
+    await assertFails(updateDoc(ref, { suspended: false }));
+  });
+
+  it('stops users deleting their profile or re-creating it with stats', async () => {
+    await assertFails(deleteDoc(doc(db(TAKER), `users/${TAKER}`)));
+    await testEnv.withSecurityRulesDisabled(async (context) => {
+      await deleteDoc(doc(context.firestore(), `users/${TAKER}`));
+    });
+    const ref = doc(db(TAKER), `users/${TAKER}`);
+    await assertFails(setDoc(ref, { username: TAKER, role: 'user', itemsGiven: 50, itemsTaken: 50 }));
+    await assertFails(setDoc(ref, { username: TAKER, role: 'user', rating: 5, ratingCount: 20 }));
+    await assertSucceeds(setDoc(ref, { username: TAKER, role: 'user', itemsGiven: 0, itemsTaken: 0, rating: 0, ratingCount: 0 }));
+  });
+
+  it('keeps user docs private to their owner', async () => {
+    await assertFails(getDoc(doc(db(OTHER), `users/${TAKER}`)));
+  });
+});
@@ -0,0 +1,14 @@
+import { defineConfig } from 'vitest/config';
+
+// Rules tests talk to the Firestore emulator, so run them via `npm run test:rules`
+export default defineConfig({
+  test: {
+    environment: 'node',
+    include: ['tests/**/*.test.ts'],
+    // Emulator round trips are slow on a cold start
+    testTimeout: 20000,
+    hookTimeout: 30000,
+    // Every file clears the same emulator database
+    fileParallelism: false,
+  },
+});